@@ -0,0 +1,76 @@
+import { DenomUnit } from './types';
+
+/**
+ * Convert a human-readable amount such as `12.5` to base units using the denom's exponent.
+ * The conversion is exact; amounts with more decimal places than the denom has are rejected.
+ */
+export function toBaseUnits(value: string, exponent: number): string {
+  const trimmed = value.trim();
+  const match = trimmed.match(/^(\d*)(?:\.(\d*))?$/);
+
+  if (!match || (match[1] === '' && !match[2])) {
+    throw new Error(`amount "${trimmed}" is not a positive decimal number`);
+  }
+
+  const whole = match[1] || '0';
+  const fraction = (match[2] || '').replace(/0+$/, '');
+
+  if (fraction.length > exponent) {
+    throw new Error(`amount "${trimmed}" has more than ${exponent} decimal places`);
+  }
+
+  return (BigInt(whole) * BigInt(10) ** BigInt(exponent) + BigInt(fraction.padEnd(exponent, '0') || '0')).toString();
+}
+
+/**
+ * Convert a base-unit amount to its human-readable form, e.g. `12500000` with exponent 6 to `12.5`
+ */
+export function fromBaseUnits(amount: string, exponent: number): string {
+  const value = BigInt(amount);
+  if (exponent === 0) {
+    return value.toString();
+  }
+
+  const scale = BigInt(10) ** BigInt(exponent);
+  const fraction = (value % scale).toString().padStart(exponent, '0').replace(/0+$/, '');
+
+  return fraction ? `${value / scale}.${fraction}` : (value / scale).toString();
+}
+
+/**
+ * Format a base-unit amount with its human-readable figure when the denom's unit is known,
+ * e.g. `12500000 uzig (12.5 ZIG)`
+ */
+export function formatAmount(amount: string, denom: string, denomUnits: Record<string, DenomUnit> = {}): string {
+  const unit = denomUnits[denom];
+
+  if (!unit || unit.exponent === 0) {
+    return `${amount} ${denom}`;
+  }
+
+  return `${amount} ${denom} (${fromBaseUnits(amount, unit.exponent)} ${unit.display})`;
+}
+
+/**
+ * Parse `DENOM_UNITS`, a comma separated list of `denom:DISPLAY:exponent`
+ */
+export function parseDenomUnits(value: string): Record<string, DenomUnit> {
+  const units: Record<string, DenomUnit> = {};
+
+  for (const entry of value.split(',').map(part => part.trim()).filter(Boolean)) {
+    const separator = entry.lastIndexOf(':');
+    const displaySeparator = entry.lastIndexOf(':', separator - 1);
+    const exponent = parseInt(entry.substring(separator + 1), 10);
+
+    if (displaySeparator <= 0 || isNaN(exponent) || exponent < 0) {
+      throw new Error(`Invalid DENOM_UNITS entry "${entry}", expected denom:DISPLAY:exponent`);
+    }
+
+    units[entry.substring(0, displaySeparator)] = {
+      display: entry.substring(displaySeparator + 1, separator),
+      exponent
+    };
+  }
+
+  return units;
+}
@@ -0,0 +1,33 @@
+// Programmatic API, for running distributions from another application:
+//
+//   const runner = new MultiSendRunner({ network, wallet: { signer }, storage: new MemoryStorage() });
+//   runner.on('batchConfirmed', event => ...);
+//   const result = await runner.run(recipients, { signal });
+//
+// Nothing here reads .env or the command line, writes to the console unless asked to, or exits the process.
+
+export { MultiSendRunner } from './runner';
+export type { MultiSendRunnerOptions, RunOptions, RunResult, RunStatus, RetryOptions, RetryResult, RunState } from './runner';
+export { RunEventEmitter } from './events';
+export type { RunEvents, RunEventName } from './events';
+export { consoleLogger, silentLogger } from './logger';
+export type { Logger } from './logger';
+export { FileStorage, MemoryStorage } from './storage';
+export type { RunStorage } from './storage';
+export { RpcBackend, RPC_TIMING, createRpcBackend } from './chain-backend';
+export { RpcEndpointPool, RpcEndpointError, DEFAULT_RPC_ENDPOINT_OPTIONS } from './rpc-endpoints';
+export type { RpcEndpointOptions, RpcEndpointHealth } from './rpc-endpoints';
+export type { ChainBackend, ChainClient, ChainTiming, SigningChainClient } from './chain-backend';
+export { SimulatedChain, SIMULATED_FAULTS } from './simulated-chain';
+export type { SimulatedChainOptions, SimulatedFault } from './simulated-chain';
+export { getNetworkProfile, assertChainId, ChainIdMismatchError } from './networks';
+export type { NetworkProfile } from './networks';
+export { parseSenderAccounts } from './sender-pool';
+export { DEFAULT_MEMO_TEMPLATE, formatMemo, findCampaignTransactions, validateMemoTemplate } from './memo';
+export type { CampaignMemo, CampaignTransaction, MemoOptions } from './memo';
+export { readRecipients } from './input-formats';
+export { PreflightError, RunAbortedError, RunCancelledError } from './errors';
+export type { PlannedPayer, RunPlan } from './funds-preflight';
+export type { BatchState } from './run-journal';
+export type { RecipientStatus } from './results-report';
+export type { Coin, DelegationConfig, DenomUnit, FailedBatch, Recipient, WalletConfig, ZigchainConfig } from './types';
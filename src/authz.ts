@@ -0,0 +1,222 @@
+import { Any } from 'cosmjs-types/google/protobuf/any';
+import { Timestamp } from 'cosmjs-types/google/protobuf/timestamp';
+import { GenericAuthorization } from 'cosmjs-types/cosmos/authz/v1beta1/authz';
+import { SendAuthorization } from 'cosmjs-types/cosmos/bank/v1beta1/authz';
+import { AllowedMsgAllowance, BasicAllowance, PeriodicAllowance } from 'cosmjs-types/cosmos/feegrant/v1beta1/feegrant';
+import { Coin, DelegationConfig } from './types';
+import { formatCoins } from './coins';
+import { consoleLogger, Logger } from './logger';
+import { ChainBackend } from './chain-backend';
+
+export const MSG_MULTI_SEND_TYPE_URL = '/cosmos.bank.v1beta1.MsgMultiSend';
+export const MSG_SEND_TYPE_URL = '/cosmos.bank.v1beta1.MsgSend';
+export const MSG_EXEC_TYPE_URL = '/cosmos.authz.v1beta1.MsgExec';
+
+// How a grant lets the operator key move the granter's funds:
+// 'multi-send' wraps the MsgMultiSend in MsgExec (a GenericAuthorization for MsgMultiSend),
+// 'send' wraps one MsgSend per recipient (a SendAuthorization, or a GenericAuthorization for MsgSend)
+export type GrantMode = 'multi-send' | 'send';
+
+export interface SendGrant {
+  mode: GrantMode;
+  expiration?: Date;
+  spendLimit?: Coin[]; // Unlimited when not set
+  allowList?: string[]; // The only addresses that may be paid, when not empty
+}
+
+export interface FeeAllowance {
+  expiration?: Date;
+  spendLimit?: Coin[]; // Unlimited when not set
+  allowedMessages?: string[]; // Any message when not set
+}
+
+/**
+ * Find the grant that lets the grantee send the granter's funds, preferring one that allows MsgMultiSend.
+ * Returns null when there is none.
+ */
+export async function findSendGrant(backend: ChainBackend, granter: string, grantee: string): Promise<SendGrant | null> {
+  const grants: SendGrant[] = [];
+
+  for (const grant of await backend.getGrants(granter, grantee)) {
+    const expiration = grant.expiration ? toDate(grant.expiration) : undefined;
+    const sendGrant = grant.authorization ? decodeAuthorization(grant.authorization) : null;
+    if (sendGrant) {
+      grants.push({ ...sendGrant, ...(expiration ? { expiration } : {}) });
+    }
+  }
+
+  return grants.find(grant => grant.mode === 'multi-send') || grants[0] || null;
+}
+
+/**
+ * Find the fee allowance the granter has given the grantee. Returns null when there is none.
+ */
+export async function findFeeAllowance(backend: ChainBackend, granter: string, grantee: string): Promise<FeeAllowance | null> {
+  const allowance = await backend.getFeeAllowance(granter, grantee);
+  return allowance ? decodeAllowance(allowance) : null;
+}
+
+/**
+ * Check before a campaign starts that its authz grant and fee allowance exist, have not expired
+ * and cover the whole campaign. Returns the problems found, none when it can go ahead.
+ * @param messageTypeUrls Messages the campaign sends: MsgMultiSend, and MsgSend for recipients with a memo
+ * @param estimateFees Total fees of the campaign, only estimated once the grant checks out
+ */
+export async function preflightDelegation(
+  backend: ChainBackend,
+  delegation: DelegationConfig,
+  grantee: string,
+  totals: Coin[],
+  recipientAddresses: string[],
+  messageTypeUrls: string[],
+  estimateFees: () => Promise<Coin[]>,
+  logger: Logger = consoleLogger
+): Promise<string[]> {
+  const problems: string[] = [];
+
+  if (delegation.granter) {
+    const grant = await findSendGrant(backend, delegation.granter, grantee);
+
+    if (!grant) {
+      problems.push(`${delegation.granter} has not granted ${grantee} a SendAuthorization or a GenericAuthorization for MsgMultiSend or MsgSend`);
+    } else {
+      logger.info(
+        `Authz grant from ${delegation.granter}: ${grant.mode === 'multi-send' ? 'MsgMultiSend' : 'MsgSend'} through MsgExec` +
+        `, spend limit ${grant.spendLimit ? formatCoins(grant.spendLimit) : 'none'}` +
+        `, expires ${grant.expiration ? grant.expiration.toISOString() : 'never'}`
+      );
+      problems.push(...checkSendGrant(grant, totals, recipientAddresses));
+      if (grant.mode === 'multi-send' && messageTypeUrls.includes(MSG_SEND_TYPE_URL)) {
+        problems.push('recipients with a memo are sent with MsgSend, which a GenericAuthorization for MsgMultiSend does not allow');
+      }
+    }
+  }
+
+  if (delegation.feeGranter) {
+    const allowance = await findFeeAllowance(backend, delegation.feeGranter, grantee);
+
+    if (!allowance) {
+      problems.push(`${delegation.feeGranter} has not granted ${grantee} a fee allowance`);
+    } else {
+      // Simulating needs a working grant, so fees are only estimated once it checks out
+      const fees = problems.length === 0 ? await estimateFees() : [];
+      logger.info(
+        `Fee allowance from ${delegation.feeGranter}: spend limit ${allowance.spendLimit ? formatCoins(allowance.spendLimit) : 'none'}` +
+        `, expires ${allowance.expiration ? allowance.expiration.toISOString() : 'never'}` +
+        (fees.length > 0 ? `, estimated fees ${formatCoins(fees)}` : '')
+      );
+      problems.push(...checkFeeAllowance(allowance, delegation.granter ? [MSG_EXEC_TYPE_URL] : messageTypeUrls, fees));
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Problems that keep a grant from paying for a campaign: expired, a spend limit below the totals,
+ * or recipients outside its allow list
+ */
+export function checkSendGrant(grant: SendGrant, totals: Coin[], recipientAddresses: string[]): string[] {
+  const problems: string[] = [];
+
+  if (grant.expiration && grant.expiration.getTime() <= Date.now()) {
+    problems.push(`the grant expired on ${grant.expiration.toISOString()}`);
+  }
+
+  if (grant.spendLimit) {
+    problems.push(...checkLimit('spend limit', grant.spendLimit, totals));
+  }
+
+  if (grant.allowList && grant.allowList.length > 0) {
+    const allowed = new Set(grant.allowList);
+    const outside = recipientAddresses.filter(address => !allowed.has(address));
+    if (outside.length > 0) {
+      problems.push(`${outside.length} recipients are not in the grant's allow list, e.g. ${outside[0]}`);
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Problems that keep a fee allowance from paying for a campaign's transactions
+ */
+export function checkFeeAllowance(allowance: FeeAllowance, messageTypeUrls: string[], estimatedFees: Coin[]): string[] {
+  const problems: string[] = [];
+
+  if (allowance.expiration && allowance.expiration.getTime() <= Date.now()) {
+    problems.push(`the fee allowance expired on ${allowance.expiration.toISOString()}`);
+  }
+
+  const notAllowed = messageTypeUrls.filter(typeUrl => allowance.allowedMessages && !allowance.allowedMessages.includes(typeUrl));
+  if (notAllowed.length > 0) {
+    problems.push(`the fee allowance does not cover ${notAllowed.join(', ')} (allowed: ${allowance.allowedMessages!.join(', ')})`);
+  }
+
+  if (allowance.spendLimit) {
+    problems.push(...checkLimit('fee allowance', allowance.spendLimit, estimatedFees));
+  }
+
+  return problems;
+}
+
+function checkLimit(name: string, limit: Coin[], required: Coin[]): string[] {
+  return required
+    .filter(coin => BigInt(limit.find(entry => entry.denom === coin.denom)?.amount || '0') < BigInt(coin.amount))
+    .map(coin => {
+      const available = limit.find(entry => entry.denom === coin.denom)?.amount || '0';
+      return `the ${name} of ${available} ${coin.denom} does not cover the ${coin.amount} ${coin.denom} needed`;
+    });
+}
+
+function decodeAuthorization(authorization: Any): Omit<SendGrant, 'expiration'> | null {
+  if (authorization.typeUrl === '/cosmos.authz.v1beta1.GenericAuthorization') {
+    const { msg } = GenericAuthorization.decode(authorization.value);
+    if (msg === MSG_MULTI_SEND_TYPE_URL) {
+      return { mode: 'multi-send' };
+    }
+    return msg === MSG_SEND_TYPE_URL ? { mode: 'send' } : null;
+  }
+
+  if (authorization.typeUrl === '/cosmos.bank.v1beta1.SendAuthorization') {
+    const { spendLimit, allowList } = SendAuthorization.decode(authorization.value);
+    return { mode: 'send', spendLimit, allowList };
+  }
+
+  return null;
+}
+
+function decodeAllowance(allowance: Any): FeeAllowance | null {
+  switch (allowance.typeUrl) {
+    case '/cosmos.feegrant.v1beta1.BasicAllowance': {
+      const { spendLimit, expiration } = BasicAllowance.decode(allowance.value);
+      return {
+        ...(spendLimit.length > 0 ? { spendLimit } : {}),
+        ...(expiration ? { expiration: toDate(expiration) } : {})
+      };
+    }
+    case '/cosmos.feegrant.v1beta1.PeriodicAllowance': {
+      // What can still be spent in the current period (all of it once the period has reset), within the overall limit
+      const { basic, periodCanSpend, periodSpendLimit, periodReset } = PeriodicAllowance.decode(allowance.value);
+      const basicLimit = basic?.spendLimit || [];
+      const periodLimit = periodReset && toDate(periodReset).getTime() <= Date.now() ? periodSpendLimit : periodCanSpend;
+      return {
+        spendLimit: periodLimit.map(coin => {
+          const overall = basicLimit.find(entry => entry.denom === coin.denom);
+          return overall && BigInt(overall.amount) < BigInt(coin.amount) ? overall : coin;
+        }),
+        ...(basic?.expiration ? { expiration: toDate(basic.expiration) } : {})
+      };
+    }
+    case '/cosmos.feegrant.v1beta1.AllowedMsgAllowance': {
+      const { allowance: inner, allowedMessages } = AllowedMsgAllowance.decode(allowance.value);
+      return { ...(inner ? decodeAllowance(inner) : {}), allowedMessages };
+    }
+    default:
+      return null;
+  }
+}
+
+function toDate(timestamp: Timestamp): Date {
+  return new Date(Number(timestamp.seconds) * 1000 + Math.floor(timestamp.nanos / 1e6));
+}
@@ -0,0 +1,54 @@
+import { Recipient } from './types';
+
+// A batch as planned: its recipients and where they start in the run's recipients
+export interface PlannedBatch {
+  startIndex: number;
+  recipients: Recipient[];
+}
+
+/**
+ * Recipients in the order they are sent: rows without a memo first, in input order, then rows with a
+ * memo grouped by memo in the order each memo first appears. Sorting is stable, so ordering an
+ * ordered list again changes nothing, and a resumed run plans the same batches.
+ */
+export function orderForSending(recipients: Recipient[]): Recipient[] {
+  const firstSeen = new Map<string, number>();
+  recipients.forEach((recipient, index) => {
+    if (recipient.memo && !firstSeen.has(recipient.memo)) {
+      firstSeen.set(recipient.memo, index);
+    }
+  });
+
+  const rank = (recipient: Recipient) => (recipient.memo ? firstSeen.get(recipient.memo)! + 1 : 0);
+  return [...recipients].sort((a, b) => rank(a) - rank(b));
+}
+
+/**
+ * Cut ordered recipients into batches of at most the batch size. Rows without a memo are sent together in
+ * MsgMultiSend batches. A transaction has a single memo, so the rows of each memo get batches of their own,
+ * sent as MsgSend messages: one transaction per row, or several rows packed into one when they share a memo.
+ */
+export function planBatches(recipients: Recipient[], batchSize: number): PlannedBatch[] {
+  const batches: PlannedBatch[] = [];
+  let start = 0;
+
+  while (start < recipients.length) {
+    const { memo } = recipients[start];
+    let end = start + 1;
+    while (end < recipients.length && end - start < batchSize && recipients[end].memo === memo) {
+      end++;
+    }
+
+    batches.push({ startIndex: start, recipients: recipients.slice(start, end) });
+    start = end;
+  }
+
+  return batches;
+}
+
+/**
+ * Recipients of each batch, in the order they are sent
+ */
+export function splitIntoBatches(recipients: Recipient[], batchSize: number): Recipient[][] {
+  return planBatches(orderForSending(recipients), batchSize).map(batch => batch.recipients);
+}
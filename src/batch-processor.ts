@@ -1,197 +1,908 @@
-import fs from 'fs';
-import path from 'path';
-import { Recipient } from './types';
-import { MultiSendService } from './multisend';
+import { Coin, SignerData } from '@cosmjs/stargate';
+import { BroadcastAttempt, BroadcastHooks, DenomUnit, FailedBatch, Recipient, SignedTx } from './types';
+import { MultiSendService, toBroadcastAttempt, TransactionFailedError } from './multisend';
+import { backoffDelay, classifyError, describeClassification, ErrorClassification, RunAbortedError, RunCancelledError } from './errors';
+import { formatCoins, getRecipientCoins, sumRecipientCoins } from './coins';
+import { JournalSegment, RunJournal } from './run-journal';
+import { BatchPart, ResultsReport } from './results-report';
+import { ConfirmationTracker, SettledTransaction } from './confirmation-tracker';
+import { createRunContext, RunContext, sleep, throwIfCancelled } from './run-context';
+import { belongsToRun, getFailedBatchAttempts, getFailedBatchLabel, mergeAttempts, readFailedBatches, writeFailedBatches } from './failed-batches';
+import { SigningChainClient } from './chain-backend';
+import { CampaignMemo, formatMemo } from './memo';
+import { orderForSending, planBatches, splitIntoBatches } from './batch-plan';
+
+export const TRANSACTION_HASHES_FILE = 'transaction-hashes.txt';
+
+// Recipients sent in one transaction: a whole batch ("3"), or a part of a split batch ("3.1", "3.1.2")
+interface BatchSegment {
+  batchNumber: number;
+  label: string;
+  startIndex: number;
+  recipients: Recipient[];
+  sender?: string; // Derived sender account the journal assigned the batch to
+}
+
+type SegmentOutcome =
+  | { status: 'confirmed'; hash: string }
+  | { status: 'failed' }
+  | { status: 'split'; parts: BatchSegment[] };
+
+// A batch or part waiting in the pipeline. Careful items have transactions whose fate is unknown,
+// and are sent on their own once nothing else is in flight.
+interface PipelineItem {
+  segment: BatchSegment;
+  attempts: BroadcastAttempt[];
+  careful: boolean;
+}
 
 /**
- * Process recipients in batches and save transaction hashes
+ * Process recipients in batches and save transaction hashes.
+ * A batch that is too big for the chain is split in half until it fits (down to the minimum batch size),
+ * and the size that worked is used for the batches after it.
+ * With more than one transaction in flight, batches are signed ahead with consecutive sequences
+ * and confirmed as blocks include them (see processPipelined).
  */
 export class BatchProcessor {
-  private hashesFilePath: string;
-  private failedBatchesPath: string;
-  
+  private runStarted = false;
+
   constructor(
     private batchSize: number = 400, 
     private maxRetries: number = 3,
-    private retryDelayMs: number = 5000
-  ) {
-    this.hashesFilePath = path.join(process.cwd(), 'transaction-hashes.txt');
-    this.failedBatchesPath = path.join(process.cwd(), 'failed-batches.json');
+    private retryDelayMs: number = 5000,
+    private denomUnits: Record<string, DenomUnit> = {},
+    private minBatchSize: number = 10,
+    private maxInFlight: number = 1,
+    private context: RunContext = createRunContext(),
+    private memo?: CampaignMemo // Tags every transaction with the campaign and its batch
+  ) {}
+
+  /**
+   * Add a header for this run to the hashes file, keeping the hashes of earlier runs.
+   * Written once, however many sender accounts process batches.
+   */
+  private startRun(): void {
+    if (this.runStarted) {
+      return;
+    }
+    this.runStarted = true;
     
-    // Initialize the hashes file with a header
+    const { storage } = this.context;
     const timestamp = new Date().toISOString();
-    fs.writeFileSync(
-      this.hashesFilePath, 
-      `# Zigchain MultiSend Transaction Hashes\n# Generated on: ${timestamp}\n\n`,
-      'utf8'
-    );
+    if (storage.read(TRANSACTION_HASHES_FILE) === undefined) {
+      storage.write(TRANSACTION_HASHES_FILE, '# Zigchain MultiSend Transaction Hashes\n');
+    }
+    storage.append(TRANSACTION_HASHES_FILE, `\n# Run started on: ${timestamp}\n\n`);
   }
 
   /**
-   * Split recipients into batches of the specified size
+   * Split recipients into batches of the specified size, rows with a memo last in batches of their own
    */
   splitIntoBatches(recipients: Recipient[]): Recipient[][] {
-    const batches: Recipient[][] = [];
-    
-    for (let i = 0; i < recipients.length; i += this.batchSize) {
-      batches.push(recipients.slice(i, i + this.batchSize));
-    }
-    
-    return batches;
+    return splitIntoBatches(recipients, this.batchSize);
   }
 
   /**
    * Save a transaction hash to the file
    */
-  saveTransactionHash(batchNumber: number, hash: string, recipientCount: number): void {
-    const entry = `Batch #${batchNumber} | ${recipientCount} recipients | Hash: ${hash} | Time: ${new Date().toISOString()}\n`;
+  saveTransactionHash(label: number | string, hash: string, recipientCount: number): void {
+    const entry = `Batch #${label} | ${recipientCount} recipients | Hash: ${hash} | Time: ${new Date().toISOString()}\n`;
     
-    fs.appendFileSync(this.hashesFilePath, entry, 'utf8');
+    this.context.storage.append(TRANSACTION_HASHES_FILE, entry);
     
-    console.log(`Transaction hash saved to ${this.hashesFilePath}`);
+    this.context.logger.info(`Transaction hash saved to ${this.context.storage.locate(TRANSACTION_HASHES_FILE)}`);
+  }
+
+  /**
+   * Memo of a batch or part: its recipients' own memo, otherwise the campaign's, empty when the run has neither
+   */
+  private memoFor(segment: BatchSegment): string {
+    return segment.recipients[0]?.memo || (this.memo ? formatMemo(this.memo, segment.label) : '');
   }
 
   /**
-   * Sleep for a specified duration
+   * Sleep for a specified duration, or until the run is cancelled
    */
   private async sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+    return sleep(ms, this.context.signal);
   }
 
   /**
-   * Save failed batch for later retry
+   * Save failed batch (or part of a split batch) for later retry
    */
-  private saveFailedBatch(batchNumber: number, recipients: Recipient[], error: any): void {
-    const failedBatch = {
-      batchNumber,
-      recipients,
+  private saveFailedBatch(
+    segment: BatchSegment,
+    error: any,
+    classification: ErrorClassification,
+    attempts: BroadcastAttempt[],
+    journal?: RunJournal
+  ): void {
+    const memo = this.memoFor(segment);
+    const failedBatch: FailedBatch = {
+      batchNumber: segment.batchNumber,
+      ...(segment.label !== String(segment.batchNumber) ? { label: segment.label } : {}),
+      recipients: segment.recipients,
       error: error instanceof Error ? error.message : String(error),
+      category: classification.category,
+      ...(classification.code !== undefined ? { code: classification.code } : {}),
+      ...(classification.codespace !== undefined ? { codespace: classification.codespace } : {}),
+      attempts,
+      ...(segment.sender ? { sender: segment.sender } : {}),
+      ...(memo ? { memo } : {}),
+      ...(journal ? { runId: journal.runId } : {}),
       timestamp: new Date().toISOString()
     };
 
-    let failedBatches = [];
+    let failedBatches: FailedBatch[] = [];
     try {
-      if (fs.existsSync(this.failedBatchesPath)) {
-        const content = fs.readFileSync(this.failedBatchesPath, 'utf8');
-        failedBatches = JSON.parse(content);
-      }
+      failedBatches = readFailedBatches(this.context.storage);
     } catch (err) {
-      console.warn('Could not read failed batches file, creating new one');
+      this.context.logger.warn('Could not read failed batches file, creating new one');
     }
 
+    // A batch that failed again in a resumed run replaces its earlier entry
+    if (journal) {
+      failedBatches = failedBatches.filter(entry => getFailedBatchLabel(entry) !== segment.label || !belongsToRun(entry, journal));
+    }
     failedBatches.push(failedBatch);
-    fs.writeFileSync(this.failedBatchesPath, JSON.stringify(failedBatches, null, 2), 'utf8');
-    console.log(`Saved failed batch #${batchNumber} to ${this.failedBatchesPath} for later retry`);
+    writeFailedBatches(this.context.storage, failedBatches);
+    this.context.logger.info(`Saved failed batch #${segment.label} for later retry`);
   }
 
   /**
-   * Process all batches and execute transactions with retry mechanism
+   * Remove a batch or part that a resumed run has settled from failed-batches.json, so a retry cannot send it again.
+   * Entries of earlier runs are left alone.
+   */
+  private clearFailedBatch(label: string, journal?: RunJournal): void {
+    if (!journal) {
+      return;
+    }
+
+    try {
+      const failedBatches = readFailedBatches(this.context.storage);
+      const remaining = failedBatches.filter(entry => getFailedBatchLabel(entry) !== label || !belongsToRun(entry, journal));
+      
+      if (remaining.length < failedBatches.length) {
+        writeFailedBatches(this.context.storage, remaining);
+        this.context.logger.info(`Removed batch #${label} from failed batches file`);
+      }
+    } catch (error) {
+      this.context.logger.error('Error removing batch from failed batches file:', error);
+    }
+  }
+  
+  /**
+   * Every transaction signed for a batch or part: those in the journal, and those of its entry in
+   * failed-batches.json, which a retry may have sent. All of them are checked before it is sent again.
+   */
+  private getPreviousAttempts(label: string, journal?: RunJournal): BroadcastAttempt[] {
+    if (!journal) {
+      return [];
+    }
+
+    let failedAttempts: BroadcastAttempt[] = [];
+    try {
+      failedAttempts = getFailedBatchAttempts(this.context.storage, journal, label);
+    } catch (error) {
+      this.context.logger.warn('Could not read failed batches file, checking the journal\'s attempts only');
+    }
+    return mergeAttempts(journal.getSegment(label).attempts, failedAttempts);
+  }
+  
+  /**
+   * Record that a batch or part is on chain, in the journal and failed-batches.json
+   */
+  private markConfirmed(label: string, hash: string, height?: number, journal?: RunJournal): void {
+    journal?.markConfirmed(label, hash, height);
+    this.clearFailedBatch(label, journal);
+  }
+
+  /**
+   * Record in transaction-hashes.txt (and the journal) that a batch or part is sent as smaller parts
+   */
+  private recordSplit(segment: BatchSegment, parts: BatchSegment[], reason: string, journal?: RunJournal): void {
+    journal?.splitSegment(segment.label, parts);
+    // The parts are retried on their own if they fail
+    this.clearFailedBatch(segment.label, journal);
+    
+    const partList = parts.map(part => `#${part.label} (${part.recipients.length})`).join(', ');
+    const entry = `Batch #${segment.label} | ${segment.recipients.length} recipients | SPLIT into ${partList}: ${reason} | Time: ${new Date().toISOString()}\n`;
+    this.context.storage.append(TRANSACTION_HASHES_FILE, entry);
+    
+    this.context.logger.info(`Batch #${segment.label} split into ${partList}: ${reason}`);
+  }
+
+  /**
+   * Cut a batch or part into consecutive parts of at most the given size, labelled 3.1, 3.2, ...
+   */
+  private splitSegment(segment: BatchSegment, size: number): BatchSegment[] {
+    const parts: BatchSegment[] = [];
+    
+    for (let i = 0; i < segment.recipients.length; i += size) {
+      parts.push({
+        ...segment,
+        label: `${segment.label}.${parts.length + 1}`,
+        startIndex: segment.startIndex + i,
+        recipients: segment.recipients.slice(i, i + size)
+      });
+    }
+    
+    return parts;
+  }
+
+  /**
+   * Check a journalled batch or part against the chain. Returns the transaction hash if it is confirmed.
+   */
+  private async reconcileJournalSegment(
+    multiSendService: MultiSendService,
+    journal: RunJournal,
+    label: string,
+    recipientCount: number
+  ): Promise<string | null> {
+    const segment: JournalSegment = journal.getSegment(label);
+    
+    if (segment.state === 'confirmed' && segment.txHash) {
+      this.clearFailedBatch(label, journal);
+      return segment.txHash;
+    }
+    
+    // A batch that was signed or broadcast before the crash, or resent by a retry, may have landed on chain
+    const attempts = this.getPreviousAttempts(label, journal);
+    if (attempts.length > 0) {
+      this.context.logger.info(`\nBatch #${label} was ${segment.state} before the run stopped, checking its transactions...`);
+      
+      try {
+        const check = await multiSendService.checkPreviousAttempts(attempts);
+        
+        if (check.status === 'committed') {
+          this.markConfirmed(label, check.tx.hash, check.tx.height, journal);
+          this.saveTransactionHash(label, check.tx.hash, recipientCount);
+          this.emitConfirmed(label, check.tx.hash, check.tx.height);
+          return check.tx.hash;
+        }
+      } catch (error) {
+        // The batch is checked again before anything is resent
+        this.context.logger.warn(`Could not settle the earlier attempts of Batch #${label}:`, error instanceof Error ? error.message : error);
+      }
+    }
+    
+    return null;
+  }
+
+  /**
+   * Process all batches and execute transactions with retry mechanism.
+   * With a run journal, batches follow the journal's plan and confirmed batches (or parts) are skipped.
+   * When the journal spreads batches over several sender accounts, only the sender's own batches are sent.
+   * With a results report, every recipient's outcome is recorded as each batch settles.
    */
   async processBatches(
     multiSendService: MultiSendService, 
     senderAddress: string,
     recipients: Recipient[],
-    denom: string
+    denom: string,
+    journal?: RunJournal,
+    results?: ResultsReport
   ): Promise<string[]> {
-    const batches = this.splitIntoBatches(recipients);
+    this.startRun();
+    
+    const batches: BatchSegment[] = journal
+      ? journal.batches.filter(batch => !batch.sender || batch.sender === senderAddress).map(batch => ({
+          batchNumber: batch.batchNumber,
+          label: String(batch.batchNumber),
+          startIndex: batch.startIndex,
+          recipients: journal.getBatchRecipients(batch, recipients),
+          ...(batch.sender ? { sender: batch.sender } : {})
+        }))
+      : planBatches(orderForSending(recipients), this.batchSize).map((batch, index) => ({
+          batchNumber: index + 1,
+          label: String(index + 1),
+          startIndex: batch.startIndex,
+          recipients: batch.recipients
+        }));
     const hashes: string[] = [];
     
-    console.log(`Processing ${batches.length} batches of up to ${this.batchSize} recipients each...`);
+    // Shrinks when a batch has to be split, and stays at the size that worked
+    let workingSize = this.batchSize;
+    
+    if (results) {
+      batches.forEach(batch => results.addBatch(batch.batchNumber, batch.recipients, denom));
+      results.save();
+    }
+    
+    this.context.logger.info(`Processing ${batches.length} batches of up to ${this.batchSize} recipients each...`);
+    
+    if (this.maxInFlight > 1) {
+      return this.processPipelined(multiSendService, batches, recipients, denom, journal, results);
+    }
     
     for (let i = 0; i < batches.length; i++) {
-      const batchRecipients = batches[i];
-      const batchNumber = i + 1;
-      
-      console.log(`\n--- Processing Batch #${batchNumber} (${batchRecipients.length} recipients) ---`);
+      throwIfCancelled(this.context);
+      let queue = await this.getUnsentSegments(multiSendService, batches[i], recipients, workingSize, hashes, journal, results);
+      if (queue.length === 0) {
+        continue;
+      }
       
-      try {
-        // Display the first few and last few recipients in the batch
-        const previewCount = 5;
-        const displayRecipients = batchRecipients.length <= previewCount * 2 
-          ? batchRecipients 
-          : [
-              ...batchRecipients.slice(0, previewCount),
-              { address: '...', amount: 0 }, // Placeholder for skipped recipients
-              ...batchRecipients.slice(batchRecipients.length - previewCount)
-            ];
+      let batchFailed = false;
+      while (queue.length > 0) {
+        throwIfCancelled(this.context);
+        const segment = queue.shift()!;
+        const outcome = await this.processSegment(multiSendService, segment, denom, journal, results);
+        
+        if (outcome.status === 'confirmed') {
+          hashes.push(outcome.hash);
+        } else if (outcome.status === 'split') {
+          queue = [...outcome.parts, ...queue];
+          workingSize = Math.min(workingSize, outcome.parts[0].recipients.length);
+        } else {
+          batchFailed = true;
+        }
         
-        displayRecipients.forEach((recipient, index) => {
-          if (recipient.amount === 0 && recipient.address === '...') {
-            console.log(`   ... (${batchRecipients.length - (previewCount * 2)} more recipients) ...`);
+        if (queue.length > 0) {
+          await this.sleep(multiSendService.timing.batchPauseMs);
+        }
+      }
+      
+      // Wait a bit between batches to avoid overwhelming the network, longer after a failure
+      if (i < batches.length - 1) {
+        const { batchPauseMs, failurePauseMs } = multiSendService.timing;
+        const delay = batchFailed ? failurePauseMs : batchPauseMs;
+        this.context.logger.info(`Waiting ${delay / 1000} seconds before processing next batch${batchFailed ? ' after failure' : ''}...`);
+        await this.sleep(delay);
+      }
+    }
+    
+    return hashes;
+  }
+
+  /**
+   * The segments of a batch that still have to be sent: the whole batch, or the parts of a batch split in an
+   * earlier run that are not on chain yet. Batches over the working size are split up front. Segments the
+   * journal shows to be confirmed are added to the hashes and results instead.
+   */
+  private async getUnsentSegments(
+    multiSendService: MultiSendService,
+    batch: BatchSegment,
+    recipients: Recipient[],
+    workingSize: number,
+    hashes: string[],
+    journal?: RunJournal,
+    results?: ResultsReport
+  ): Promise<BatchSegment[]> {
+    const { batchNumber } = batch;
+    
+    if (journal) {
+      const journalBatch = journal.getBatch(batchNumber);
+      
+      if (journalBatch.parts) {
+        // A batch split in an earlier run continues with its parts, skipping those already on chain
+        const parts: BatchSegment[] = [];
+        for (const part of journalBatch.parts) {
+          const partSegment = { ...batch, label: part.label, startIndex: part.startIndex, recipients: journal.getPartRecipients(part, recipients) };
+          const partHash = await this.reconcileJournalSegment(multiSendService, journal, part.label, part.recipientCount);
+          
+          if (partHash) {
+            this.context.logger.info(`\nBatch #${part.label} already confirmed (hash: ${partHash}), skipping`);
+            hashes.push(partHash);
+            results?.markBatchSucceeded(batchNumber, { transactionHash: partHash, height: part.height }, this.toBatchPart(partSegment));
           } else {
-            const actualIndex = index < previewCount 
-              ? index 
-              : batchRecipients.length - (displayRecipients.length - index - 1);
-            console.log(`   ${actualIndex + 1}. ${recipient.address} - ${recipient.amount} ${denom}`);
+            parts.push(partSegment);
           }
-        });
-        
-        // Calculate total amount for this batch
-        const totalAmount = batchRecipients.reduce((sum: number, recipient) => sum + Number(recipient.amount), 0);
-        console.log(`\nBatch #${batchNumber} total amount: ${totalAmount} ${denom}`);
-        
-        // Execute the MultiSend transaction for this batch with retries
-        let hash: string | null = null;
-        let retryCount = 0;
-        let lastError: any = null;
+        }
+        return parts;
+      }
+      
+      // Never rebuild or resend a batch that the journal says is already on chain
+      const confirmedHash = await this.reconcileJournalSegment(multiSendService, journal, batch.label, batch.recipients.length);
+      if (confirmedHash) {
+        this.context.logger.info(`\nBatch #${batchNumber} already confirmed (hash: ${confirmedHash}), skipping`);
+        hashes.push(confirmedHash);
+        results?.markBatchSucceeded(batchNumber, { transactionHash: confirmedHash, height: journalBatch.height });
+        return [];
+      }
+    }
+    
+    // Batches after a split start out at the size that worked
+    if (batch.recipients.length > workingSize) {
+      const parts = this.splitSegment(batch, workingSize);
+      this.recordSplit(batch, parts, `using the reduced batch size of ${workingSize}`, journal);
+      return parts;
+    }
+    
+    return [batch];
+  }
+
+  /**
+   * Send one batch or part with retries. A size error splits it in half instead of retrying it unchanged.
+   * Earlier transactions for it come from the journal unless they are given.
+   */
+  private async processSegment(
+    multiSendService: MultiSendService,
+    segment: BatchSegment,
+    denom: string,
+    journal?: RunJournal,
+    results?: ResultsReport,
+    previousAttempts?: BroadcastAttempt[]
+  ): Promise<SegmentOutcome> {
+    const { batchNumber, label, recipients: batchRecipients } = segment;
+    const part = this.toBatchPart(segment);
+    
+    this.context.logger.info(`\n--- Processing Batch #${label} (${batchRecipients.length} recipients) ---`);
+    this.emitStarted(segment);
+    
+    // Every transaction signed for this batch, so a retry never resends one that may still be committed
+    const attempts: BroadcastAttempt[] = [...(previousAttempts || this.getPreviousAttempts(label, journal))];
+    
+    try {
+      // Display the first few and last few recipients in the batch
+      const previewCount = 5;
+      const displayRecipients = batchRecipients.length <= previewCount * 2 
+        ? batchRecipients 
+        : [
+            ...batchRecipients.slice(0, previewCount),
+            { address: '...', amount: '' }, // Placeholder for skipped recipients
+            ...batchRecipients.slice(batchRecipients.length - previewCount)
+          ];
+      
+      displayRecipients.forEach((recipient, index) => {
+        if (recipient.amount === '' && recipient.address === '...') {
+          this.context.logger.info(`   ... (${batchRecipients.length - (previewCount * 2)} more recipients) ...`);
+        } else {
+          const actualIndex = index < previewCount 
+            ? index 
+            : batchRecipients.length - (displayRecipients.length - index - 1);
+          this.context.logger.info(`   ${actualIndex + 1}. ${recipient.address} - ${formatCoins(getRecipientCoins(recipient, denom), this.denomUnits)}`);
+        }
+      });
+      
+      // Calculate total amount for this batch
+      const totalCoins = sumRecipientCoins(batchRecipients, denom);
+      this.context.logger.info(`\nBatch #${label} total amount: ${formatCoins(totalCoins, this.denomUnits)}`);
+      
+      // Simulate the batch to work out its fee (aborts the batch if it exceeds the ceiling)
+      const memo = this.memoFor(segment);
+      const kind = batchRecipients[0].memo ? 'MsgSend' : 'MultiSend';
+      if (batchRecipients[0].memo) {
+        this.context.logger.info(`Batch #${label} is sent with MsgSend and the recipients' memo "${memo}"`);
+      }
+      const fee = await multiSendService.estimateFee(batchRecipients, memo);
+      this.context.logger.info(`Batch #${label} estimated fee: ${formatCoins(fee.amount, this.denomUnits)} (gas limit ${fee.gas})`);
+      
+      // Execute the MultiSend transaction for this batch, retrying only errors that a resend can fix
+      let hash: string | null = null;
+      let height: number | undefined;
+      let retryCount = 0;
+      let retryDelayMs = 0;
+      let lastError: any = null;
+      
+      while (retryCount <= this.maxRetries && !hash) {
+        if (retryCount > 0) {
+          this.context.logger.info(`Retry attempt ${retryCount}/${this.maxRetries} for Batch #${label}${retryDelayMs > 0 ? ` in ${retryDelayMs / 1000} seconds` : ''}...`);
+          await this.sleep(retryDelayMs);
+          throwIfCancelled(this.context);
+        }
         
-        while (retryCount <= this.maxRetries && !hash) {
-          if (retryCount > 0) {
-            console.log(`Retry attempt ${retryCount}/${this.maxRetries} for Batch #${batchNumber}...`);
-            // Wait before retrying
-            await this.sleep(this.retryDelayMs);
-          }
+        try {
+          this.context.logger.info(`Executing ${kind} transaction for Batch #${label}${retryCount > 0 ? ` (retry ${retryCount})` : ''}...`);
+          const result = await multiSendService.executeMultiSend(
+            batchRecipients,
+            fee,
+            this.attemptHooks(segment, attempts, journal),
+            attempts,
+            memo
+          );
+          hash = result.transactionHash;
+          height = result.height;
+          this.markConfirmed(label, hash, result.height, journal);
+          results?.markBatchSucceeded(batchNumber, result, part);
+        } catch (err) {
+          lastError = err;
+          const classification = classifyError(err);
+          this.context.logger.error(
+            `Error on attempt ${retryCount + 1}/${this.maxRetries + 1} (${describeClassification(classification)}):`,
+            err instanceof Error ? err.message : err
+          );
+          retryCount++;
           
-          try {
-            console.log(`Executing MultiSend transaction for Batch #${batchNumber}${retryCount > 0 ? ` (retry ${retryCount})` : ''}...`);
-            const result = await multiSendService.executeMultiSend(batchRecipients);
-            hash = result; // executeMultiSend returns the hash directly
-          } catch (err) {
-            lastError = err;
-            console.error(`Error on attempt ${retryCount + 1}/${this.maxRetries + 1}:`, err instanceof Error ? err.message : err);
-            retryCount++;
+          if (classification.policy === 'backoff') {
+            retryDelayMs = backoffDelay(this.retryDelayMs, retryCount);
+          } else if (classification.policy === 'requery-sequence') {
+            // The rejected transaction is dropped, and signing again fetches the account's current sequence
+            this.context.logger.info('Re-querying the account sequence and signing again');
+            retryDelayMs = 0;
+          } else {
+            // Resending the same transaction cannot succeed
+            break;
           }
         }
-        
-        if (!hash) {
-          throw lastError || new Error('All retry attempts failed');
+      }
+      
+      if (!hash) {
+        throw lastError || new Error('All retry attempts failed');
+      }
+      
+      this.context.logger.info(`\nBatch #${label} transaction successful!`);
+      this.context.logger.info(`Transaction hash: ${hash}`);
+      const explorerUrl = multiSendService.getExplorerUrl(hash);
+      if (explorerUrl) {
+        this.context.logger.info(`You can view the transaction at: ${explorerUrl}`);
+      }
+      
+      // Save the hash to the file
+      this.saveTransactionHash(label, hash, batchRecipients.length);
+      this.emitConfirmed(label, hash, height);
+      return { status: 'confirmed', hash };
+      
+    } catch (error) {
+      // A cancelled batch is not failed: its transactions are in the journal, and a resumed run settles them
+      if (error instanceof RunCancelledError) {
+        throw error;
+      }
+      return this.failSegment(multiSendService, segment, error, attempts, journal, results);
+    }
+  }
+
+  /**
+   * Settle a batch or part that could not be sent: split it if it was too big, otherwise record it as failed.
+   * Throws RunAbortedError when the error would fail every later batch too.
+   */
+  private async failSegment(
+    multiSendService: MultiSendService,
+    segment: BatchSegment,
+    error: unknown,
+    attempts: BroadcastAttempt[],
+    journal?: RunJournal,
+    results?: ResultsReport
+  ): Promise<SegmentOutcome> {
+    const { batchNumber, label, recipients: batchRecipients } = segment;
+    const part = this.toBatchPart(segment);
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    const classification = classifyError(error);
+    
+    if (classification.policy === 'resize' && Math.floor(batchRecipients.length / 2) >= this.minBatchSize) {
+      const outcome = await this.bisect(multiSendService, segment, attempts, errorMessage, journal, results);
+      if (outcome) {
+        return outcome;
+      }
+    }
+    
+    this.context.logger.error(`\nError executing MultiSend transaction for Batch #${label} (${describeClassification(classification)}):`, error);
+    
+    // Save the error to the file
+    const errorEntry = `Batch #${label} | ${batchRecipients.length} recipients | ERROR (${describeClassification(classification)}): ${errorMessage} | Time: ${new Date().toISOString()}\n`;
+    this.context.storage.append(TRANSACTION_HASHES_FILE, errorEntry);
+    
+    // Save failed batch for later retry
+    journal?.markFailed(label, errorMessage);
+    results?.markBatchFailed(batchNumber, errorMessage, part);
+    this.saveFailedBatch(segment, error, classification, attempts, journal);
+    this.context.events?.emit('batchFailed', { batchNumber, label, error: errorMessage, category: classification.category });
+    
+    // Insufficient funds or invalid input would fail every later batch the same way
+    if (classification.policy === 'abort-run') {
+      throw new RunAbortedError(
+        `Stopping the run after Batch #${label} failed with ${describeClassification(classification)}: ${errorMessage}`,
+        classification
+      );
+    }
+    
+    return { status: 'failed' };
+  }
+
+  /**
+   * Hooks that keep a batch's attempts, and its journal entry, in step with its transactions
+   */
+  private attemptHooks(segment: BatchSegment, attempts: BroadcastAttempt[], journal?: RunJournal): BroadcastHooks {
+    const { batchNumber, label } = segment;
+    return {
+      onSigned: signedTx => {
+        const attempt = toBroadcastAttempt(signedTx);
+        attempts.push(attempt);
+        journal?.markSigned(label, attempt);
+      },
+      onBroadcast: signedTx => {
+        journal?.markBroadcast(label);
+        this.context.events?.emit('batchBroadcast', { batchNumber, label, transactionHash: signedTx.transactionHash, sequence: signedTx.sequence });
+      },
+      onRejected: signedTx => {
+        const index = attempts.findIndex(attempt => attempt.transactionHash === signedTx.transactionHash);
+        if (index >= 0) {
+          attempts.splice(index, 1);
         }
-        
-        // Transaction succeeded
-        hashes.push(hash);
-        
-        console.log(`\nBatch #${batchNumber} transaction successful!`);
-        console.log(`Transaction hash: ${hash}`);
-        console.log(`You can view the transaction at: https://explorer.zigchain.com/tx/${hash}`);
-        
-        // Save the hash to the file
-        this.saveTransactionHash(batchNumber, hash, batchRecipients.length);
-        
-        // Wait a bit between batches to avoid overwhelming the network
-        if (i < batches.length - 1) {
-          console.log(`Waiting 3 seconds before processing next batch...`);
-          await this.sleep(3000);
+        journal?.markRejected(label, signedTx.transactionHash);
+      }
+    };
+  }
+
+  /**
+   * Send batches with up to maxInFlight transactions in flight. Each transaction is signed with the next
+   * sequence number and broadcast in sync mode, and a confirmation tracker settles them as blocks include them.
+   * A batch whose transaction timed out, or could not be broadcast for a reason a resend may fix, is sent
+   * again through processSegment once everything in flight has settled. Its earlier transactions are checked
+   * first, and a replacement reuses their sequence, so a gap left by a dropped transaction is filled without
+   * paying anyone twice. Signing ahead then continues from the sequence queried from the chain.
+   */
+  private async processPipelined(
+    multiSendService: MultiSendService,
+    batches: BatchSegment[],
+    recipients: Recipient[],
+    denom: string,
+    journal?: RunJournal,
+    results?: ResultsReport
+  ): Promise<string[]> {
+    const client = await multiSendService.createSigningClient();
+    const { confirmationTimeoutMs, pollIntervalMs } = multiSendService.timing;
+    const tracker = new ConfirmationTracker<PipelineItem>(client, confirmationTimeoutMs, this.context.logger);
+    const denoms = sumRecipientCoins(recipients, denom).map(coin => coin.denom);
+    const hashes: string[] = [];
+    let workingSize = this.batchSize;
+    let queue: PipelineItem[] = [];
+    let nextBatch = 0;
+    let abortError: RunAbortedError | null = null;
+    
+    // Queried while nothing is in flight, then advanced locally for every transaction sent
+    let signerData: SignerData | null = null;
+    let budget = new Map<string, bigint>();
+    
+    // Apply the outcome of settling a batch or part; null means it was queued again
+    const settle = async (send: () => Promise<SegmentOutcome | null>): Promise<void> => {
+      try {
+        const outcome = await send();
+        if (!outcome) {
+          return;
+        }
+        if (outcome.status === 'confirmed') {
+          hashes.push(outcome.hash);
+        } else if (outcome.status === 'split') {
+          this.enqueue(queue, outcome.parts.map(part => ({ segment: part, attempts: [], careful: false })));
+          workingSize = Math.min(workingSize, outcome.parts[0].recipients.length);
         }
-        
       } catch (error) {
-        console.error(`\nError executing MultiSend transaction for Batch #${batchNumber}:`, error);
+        if (!(error instanceof RunAbortedError)) {
+          throw error;
+        }
+        // Transactions already in flight are still settled before the run stops
+        this.context.logger.info(`\nNot sending any more batches, waiting for ${tracker.size} transactions in flight...`);
+        abortError = error;
+      }
+    };
+    
+    // Once the run is cancelled nothing new is sent, but transactions in flight are still settled
+    let cancelled = false;
+    const isCancelled = (): boolean => {
+      if (!cancelled && this.context.signal?.aborted) {
+        this.context.logger.info(`\nRun cancelled, waiting for ${tracker.size} transactions in flight...`);
+        cancelled = true;
+      }
+      return cancelled;
+    };
+    
+    this.context.logger.info(`Pipelining up to ${this.maxInFlight} transactions in flight`);
+    
+    while (true) {
+      if (queue.length === 0 && nextBatch < batches.length && !abortError && !isCancelled()) {
+        const segments = await this.getUnsentSegments(multiSendService, batches[nextBatch++], recipients, workingSize, hashes, journal, results);
+        // A segment journalled as signed or broadcast may still land, so it is resent the careful way
+        this.enqueue(queue, segments.map(segment => {
+          const attempts = this.getPreviousAttempts(segment.label, journal);
+          return { segment, attempts, careful: attempts.length > 0 };
+        }));
+        continue;
+      }
+      
+      const item = queue[0];
+      if (item && !abortError && !isCancelled() && (item.careful ? tracker.size === 0 : tracker.size < this.maxInFlight)) {
+        queue.shift();
         
-        // Save the error to the file
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        const errorEntry = `Batch #${batchNumber} | ${batchRecipients.length} recipients | ERROR: ${errorMessage} | Time: ${new Date().toISOString()}\n`;
-        fs.appendFileSync(this.hashesFilePath, errorEntry, 'utf8');
+        if (item.careful) {
+          signerData = null;
+          await settle(() => this.processSegment(multiSendService, item.segment, denom, journal, results, item.attempts));
+          continue;
+        }
         
-        // Save failed batch for later retry
-        this.saveFailedBatch(batchNumber, batchRecipients, error);
+        if (!signerData) {
+          signerData = await multiSendService.getSignerData(client);
+          budget = await multiSendService.getBalances(denoms);
+          this.context.logger.info(`\nSigning ahead from sequence ${signerData.sequence}`);
+        }
         
-        // Wait longer after a failure before continuing
-        if (i < batches.length - 1) {
-          console.log(`Waiting 10 seconds before processing next batch after failure...`);
-          await this.sleep(10000);
+        try {
+          const signedTx = await this.sendAhead(multiSendService, client, item, signerData, budget, denom, journal);
+          if (signedTx) {
+            tracker.track(signedTx.transactionHash, signedTx.sequence, item);
+            signerData = { ...signerData, sequence: signerData.sequence + 1 };
+          } else {
+            // The sequential path checks the balance again once the transactions in flight have settled
+            this.enqueue(queue, [{ ...item, careful: true }]);
+          }
+        } catch (error) {
+          const classification = classifyError(error);
+          this.context.logger.error(
+            `Could not send Batch #${item.segment.label} (${describeClassification(classification)}):`,
+            error instanceof Error ? error.message : error
+          );
+          
+          if (item.attempts.length > 0 || classification.policy === 'backoff' || classification.policy === 'requery-sequence') {
+            // It may have reached the mempool, or a resend may work: try again once nothing is in flight
+            this.enqueue(queue, [{ ...item, careful: true }]);
+          } else {
+            // Refused by CheckTx, so the sequence is still free for the next batch
+            await settle(() => this.failSegment(multiSendService, item.segment, error, item.attempts, journal, results));
+          }
         }
+        continue;
+      }
+      
+      // Nothing can be sent until transactions in flight settle
+      if (tracker.size === 0) {
+        if (abortError) {
+          throw abortError;
+        }
+        throwIfCancelled(this.context);
+        break;
+      }
+      
+      // Not cut short by cancelling, since the transactions in flight are waited for
+      await sleep(pollIntervalMs);
+      for (const settled of await tracker.poll()) {
+        await settle(() => this.settleTracked(multiSendService, settled, queue, journal, results));
       }
     }
     
     return hashes;
   }
+
+  /**
+   * Sign a pipelined batch or part with the given sequence and broadcast it without waiting for a block.
+   * Returns null without signing if the balance left after the transactions in flight does not cover it.
+   */
+  private async sendAhead(
+    multiSendService: MultiSendService,
+    client: SigningChainClient,
+    item: PipelineItem,
+    signerData: SignerData,
+    budget: Map<string, bigint>,
+    denom: string,
+    journal?: RunJournal
+  ): Promise<SignedTx | null> {
+    const { label, recipients: batchRecipients } = item.segment;
+    this.emitStarted(item.segment);
+    
+    const memo = this.memoFor(item.segment);
+    const fee = await multiSendService.estimateFee(batchRecipients, memo);
+    const spend: Coin[] = [
+      ...sumRecipientCoins(batchRecipients, denom),
+      ...(multiSendService.fundingAccountPaysFees() ? fee.amount : [])
+    ];
+    if (spend.some(coin => (budget.get(coin.denom) ?? 0n) < BigInt(coin.amount))) {
+      return null;
+    }
+    
+    const signedTx = await multiSendService.signMultiSend(client, batchRecipients, fee, signerData, memo);
+    const hooks = this.attemptHooks(item.segment, item.attempts, journal);
+    hooks.onSigned?.(signedTx);
+    await multiSendService.broadcastSync(client, signedTx, hooks);
+    
+    spend.forEach(coin => budget.set(coin.denom, budget.get(coin.denom)! - BigInt(coin.amount)));
+    this.context.logger.info(
+      `Batch #${label} (${batchRecipients.length} recipients, ${formatCoins(sumRecipientCoins(batchRecipients, denom), this.denomUnits)}) ` +
+      `broadcast with sequence ${signedTx.sequence}: ${signedTx.transactionHash}`
+    );
+    return signedTx;
+  }
+
+  /**
+   * Record a transaction the confirmation tracker has settled. Returns null if its batch was queued again.
+   */
+  private async settleTracked(
+    multiSendService: MultiSendService,
+    settled: SettledTransaction<PipelineItem>,
+    queue: PipelineItem[],
+    journal?: RunJournal,
+    results?: ResultsReport
+  ): Promise<SegmentOutcome | null> {
+    const item = settled.tracked.context;
+    const { batchNumber, label, recipients: batchRecipients } = item.segment;
+    
+    if (settled.status === 'committed') {
+      const { tx } = settled;
+      this.markConfirmed(label, tx.hash, tx.height, journal);
+      results?.markBatchSucceeded(batchNumber, { transactionHash: tx.hash, height: tx.height, gasUsed: tx.gasUsed }, this.toBatchPart(item.segment));
+      
+      this.context.logger.info(`\nBatch #${label} transaction successful!`);
+      this.context.logger.info(`Transaction hash: ${tx.hash}`);
+      const explorerUrl = multiSendService.getExplorerUrl(tx.hash);
+      if (explorerUrl) {
+        this.context.logger.info(`You can view the transaction at: ${explorerUrl}`);
+      }
+      this.saveTransactionHash(label, tx.hash, batchRecipients.length);
+      this.emitConfirmed(label, tx.hash, tx.height);
+      return { status: 'confirmed', hash: tx.hash };
+    }
+    
+    if (settled.status === 'timed-out') {
+      this.context.logger.warn(`\nBatch #${label} (${settled.tracked.transactionHash}) was not included in time, it is checked again once nothing is in flight`);
+      this.enqueue(queue, [{ ...item, careful: true }]);
+      return null;
+    }
+    
+    // Included but failed: its sequence is used up, so the transactions after it are unaffected
+    const error = new TransactionFailedError(settled.tx.hash, settled.tx.code, settled.tx.rawLog);
+    const classification = classifyError(error);
+    
+    if (classification.policy === 'backoff' || classification.policy === 'requery-sequence') {
+      this.context.logger.warn(`\nBatch #${label} failed on chain (${describeClassification(classification)}), it is sent again once nothing is in flight`);
+      this.enqueue(queue, [{ ...item, careful: true }]);
+      return null;
+    }
+    
+    return this.failSegment(multiSendService, item.segment, error, item.attempts, journal, results);
+  }
+
+  /**
+   * Put items back in the pipeline queue. Careful items go first, in the order they were first sent,
+   * so a gap in the sequence is filled by the batch that left it. Other items follow them.
+   */
+  private enqueue(queue: PipelineItem[], items: PipelineItem[]): void {
+    queue.splice(queue.filter(queued => queued.careful).length, 0, ...items.filter(item => !item.careful));
+    
+    for (const item of items.filter(item => item.careful)) {
+      const position = queue.findIndex(queued => !queued.careful || queued.segment.startIndex > item.segment.startIndex);
+      queue.splice(position < 0 ? queue.length : position, 0, item);
+    }
+  }
+
+  /**
+   * Split an oversized batch or part in half. Its earlier transactions are checked first:
+   * one that was committed after all settles it, and one that cannot be settled leaves it failed.
+   */
+  private async bisect(
+    multiSendService: MultiSendService,
+    segment: BatchSegment,
+    attempts: BroadcastAttempt[],
+    reason: string,
+    journal?: RunJournal,
+    results?: ResultsReport
+  ): Promise<SegmentOutcome | null> {
+    if (attempts.length > 0) {
+      try {
+        const check = await multiSendService.checkPreviousAttempts(attempts);
+        if (check.status === 'committed') {
+          this.markConfirmed(segment.label, check.tx.hash, check.tx.height, journal);
+          results?.markBatchSucceeded(segment.batchNumber, { transactionHash: check.tx.hash, height: check.tx.height }, this.toBatchPart(segment));
+          this.saveTransactionHash(segment.label, check.tx.hash, segment.recipients.length);
+          this.emitConfirmed(segment.label, check.tx.hash, check.tx.height);
+          return { status: 'confirmed', hash: check.tx.hash };
+        }
+      } catch (error) {
+        this.context.logger.warn(`Not splitting Batch #${segment.label}:`, error instanceof Error ? error.message : error);
+        return null;
+      }
+    }
+    
+    const parts = this.splitSegment(segment, Math.ceil(segment.recipients.length / 2));
+    this.recordSplit(segment, parts, reason, journal);
+    return { status: 'split', parts };
+  }
+
+  private emitStarted(segment: BatchSegment): void {
+    this.context.events?.emit('batchStarted', {
+      batchNumber: segment.batchNumber,
+      label: segment.label,
+      recipientCount: segment.recipients.length,
+      ...(segment.sender ? { sender: segment.sender } : {})
+    });
+  }
+
+  private emitConfirmed(label: string, transactionHash: string, height?: number): void {
+    this.context.events?.emit('batchConfirmed', { batchNumber: parseInt(label, 10), label, transactionHash, height });
+  }
+
+  /**
+   * The part a segment covers in the results report, or undefined for a whole batch
+   */
+  private toBatchPart(segment: BatchSegment): BatchPart | undefined {
+    return segment.label === String(segment.batchNumber)
+      ? undefined
+      : { label: segment.label, recipients: segment.recipients };
+  }
 }
@@ -0,0 +1,175 @@
+import { Pubkey } from '@cosmjs/amino';
+import { EncodeObject, OfflineSigner, Registry } from '@cosmjs/proto-signing';
+import {
+  Account,
+  Coin,
+  createPagination,
+  createProtobufRpcClient,
+  defaultRegistryTypes,
+  IndexedTx,
+  QueryClient,
+  SequenceResponse,
+  setupAuthzExtension,
+  setupFeegrantExtension,
+  setupTxExtension,
+  SignerData,
+  SigningStargateClient,
+  StargateClient,
+  StdFee
+} from '@cosmjs/stargate';
+import { QueryClientImpl as AuthQueryClient } from 'cosmjs-types/cosmos/auth/v1beta1/query';
+import { Grant } from 'cosmjs-types/cosmos/authz/v1beta1/authz';
+import { QueryClientImpl as BankQueryClient } from 'cosmjs-types/cosmos/bank/v1beta1/query';
+import { TxRaw } from 'cosmjs-types/cosmos/tx/v1beta1/tx';
+import { Any } from 'cosmjs-types/google/protobuf/any';
+import { ZigchainConfig } from './types';
+import { Logger } from './logger';
+import { RpcEndpointOptions, RpcEndpointPool } from './rpc-endpoints';
+
+// What the services read from the chain and send to it, as offered by StargateClient
+export interface ChainClient {
+  getChainId(): Promise<string>;
+  getAccount(address: string): Promise<Account | null>;
+  getSequence(address: string): Promise<SequenceResponse>;
+  getBalance(address: string, denom: string): Promise<Coin>;
+  getAllBalances(address: string): Promise<readonly Coin[]>;
+  getTx(id: string): Promise<IndexedTx | null>;
+  searchTx(query: string): Promise<IndexedTx[]>; // e.g. message.sender='zig1...', every page
+  broadcastTxSync(tx: Uint8Array): Promise<string>; // Throws BroadcastTxError when CheckTx refuses the transaction
+  disconnect(): void;
+}
+
+// A client that can also simulate and sign, as offered by SigningStargateClient
+export interface SigningChainClient extends ChainClient {
+  simulate(signerAddress: string, messages: readonly EncodeObject[], memo: string | undefined): Promise<number>;
+  sign(
+    signerAddress: string,
+    messages: readonly EncodeObject[],
+    fee: StdFee,
+    memo: string,
+    explicitSignerData?: SignerData
+  ): Promise<TxRaw>;
+}
+
+// How long to wait on the chain, which depends on how fast it makes blocks
+export interface ChainTiming {
+  pollIntervalMs: number; // Between lookups of a broadcast transaction
+  confirmationTimeoutMs: number; // How long a broadcast transaction may take to be included in a block
+  batchPauseMs: number; // Between batches, to avoid overwhelming the node
+  failurePauseMs: number; // Between batches after a failure, and the base delay when retrying failed batches
+}
+
+export const RPC_TIMING: ChainTiming = {
+  pollIntervalMs: 3000,
+  confirmationTimeoutMs: 60000,
+  batchPauseMs: 3000,
+  failurePauseMs: 10000
+};
+
+/**
+ * Where transactions are sent: a node over RPC, or a chain simulated in process (see SimulatedChain)
+ */
+export interface ChainBackend {
+  readonly timing: ChainTiming;
+  connect(): Promise<ChainClient>;
+  connectWithSigner(signer: OfflineSigner): Promise<SigningChainClient>;
+  getSpendableBalances(address: string): Promise<Coin[]>; // Leaving out vesting and otherwise locked coins
+  getMaxMemoCharacters(): Promise<number>; // From the auth module's parameters
+  getGrants(granter: string, grantee: string): Promise<Grant[]>; // Authz grants, every page
+  getFeeAllowance(granter: string, grantee: string): Promise<Any | null>; // Null when there is none
+  // Gas used by a transaction of an account whose key is not available here, signed with the given public key and sequence
+  simulateForAccount(pubkey: Pubkey, sequence: number, messages: readonly EncodeObject[], memo: string | undefined): Promise<number>;
+}
+
+/**
+ * Nodes reached over their RPC endpoints. Every client shares one connection per endpoint, and
+ * requests fail over between the endpoints (see RpcEndpointPool).
+ */
+export class RpcBackend implements ChainBackend {
+  readonly timing = RPC_TIMING;
+  readonly endpoints: RpcEndpointPool;
+  private registry = new Registry(defaultRegistryTypes);
+
+  constructor(rpcUrls: string | string[], options: Partial<RpcEndpointOptions> = {}) {
+    this.endpoints = new RpcEndpointPool(typeof rpcUrls === 'string' ? [rpcUrls] : rpcUrls, options);
+  }
+
+  async connect(): Promise<ChainClient> {
+    return StargateClient.create(await this.endpoints.getCometClient());
+  }
+
+  async connectWithSigner(signer: OfflineSigner): Promise<SigningChainClient> {
+    return SigningStargateClient.createWithSigner(await this.endpoints.getCometClient(), signer);
+  }
+
+  async getSpendableBalances(address: string): Promise<Coin[]> {
+    const bank = new BankQueryClient(createProtobufRpcClient(new QueryClient(await this.endpoints.getCometClient())));
+    const balances: Coin[] = [];
+    let paginationKey: Uint8Array | undefined;
+
+    do {
+      const response = await bank.SpendableBalances({ address, pagination: createPagination(paginationKey) });
+      balances.push(...response.balances);
+      paginationKey = response.pagination?.nextKey?.length ? response.pagination.nextKey : undefined;
+    } while (paginationKey);
+
+    return balances;
+  }
+
+  async getMaxMemoCharacters(): Promise<number> {
+    const auth = new AuthQueryClient(createProtobufRpcClient(new QueryClient(await this.endpoints.getCometClient())));
+    const { params } = await auth.Params();
+    return Number(params.maxMemoCharacters);
+  }
+
+  async getGrants(granter: string, grantee: string): Promise<Grant[]> {
+    const queryClient = QueryClient.withExtensions(await this.endpoints.getCometClient(), setupAuthzExtension);
+    const grants: Grant[] = [];
+    let paginationKey: Uint8Array | undefined;
+
+    do {
+      const response = await queryClient.authz.grants(granter, grantee, '', paginationKey);
+      grants.push(...response.grants);
+      paginationKey = response.pagination?.nextKey?.length ? response.pagination.nextKey : undefined;
+    } while (paginationKey);
+
+    return grants;
+  }
+
+  async getFeeAllowance(granter: string, grantee: string): Promise<Any | null> {
+    const queryClient = QueryClient.withExtensions(await this.endpoints.getCometClient(), setupFeegrantExtension);
+
+    try {
+      const response = await queryClient.feegrant.allowance(granter, grantee);
+      return response.allowance?.allowance || null;
+    } catch (error) {
+      // The query fails when there is no allowance
+      if (/not found|no allowance/i.test(error instanceof Error ? error.message : String(error))) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async simulateForAccount(pubkey: Pubkey, sequence: number, messages: readonly EncodeObject[], memo: string | undefined): Promise<number> {
+    const queryClient = QueryClient.withExtensions(await this.endpoints.getCometClient(), setupTxExtension);
+    const { gasInfo } = await queryClient.tx.simulate(messages.map(message => this.registry.encodeAsAny(message)), memo, pubkey, sequence);
+
+    if (!gasInfo) {
+      throw new Error('Simulation returned no gas information');
+    }
+    return Number(gasInfo.gasUsed);
+  }
+}
+
+/**
+ * The RPC backend of a network: its endpoints, rate limit and block lag, and its chain ID to skip endpoints on another chain
+ */
+export function createRpcBackend(networkConfig: ZigchainConfig, logger?: Logger): RpcBackend {
+  return new RpcBackend(networkConfig.rpcUrls || [networkConfig.rpcUrl], {
+    chainId: networkConfig.chainId,
+    ...(networkConfig.rpcRequestsPerSecond !== undefined ? { requestsPerSecond: networkConfig.rpcRequestsPerSecond } : {}),
+    ...(networkConfig.rpcMaxBlockLag !== undefined ? { maxBlockLag: networkConfig.rpcMaxBlockLag } : {}),
+    ...(logger ? { logger } : {})
+  });
+}
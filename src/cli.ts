@@ -0,0 +1,302 @@
+import { getInputFormatNames } from './input-formats';
+import { SIMULATED_FAULTS } from './simulated-chain';
+
+// Exit codes, the same for every command
+export const EXIT_OK = 0;
+export const EXIT_FAILURE = 1; // The command failed, or found problems (failed batches, invalid input, unpaid recipients)
+export const EXIT_USAGE = 2; // Unknown command or option, or an invalid option value
+
+/**
+ * Thrown for a command line that cannot be run as given
+ */
+export class UsageError extends Error {
+  constructor(message: string, public readonly command?: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+interface OptionSpec {
+  type: 'boolean' | 'string' | 'integer';
+  description: string;
+  valueName?: string; // Shown in the help, e.g. --batch-size=<n>
+  choices?: () => string[];
+  min?: number;
+  pattern?: RegExp;
+}
+
+// Every option, keyed by its name on the command line
+const OPTIONS: Record<string, OptionSpec> = {
+  'network': { type: 'string', valueName: 'name', description: 'Network profile from networks.json (default: NETWORK or testnet)' },
+  'json': { type: 'boolean', description: 'Print the result as JSON on stdout; progress goes to stderr' },
+  'help': { type: 'boolean', description: 'Show the help of the command' },
+  'key': { type: 'string', valueName: 'name', description: 'Sign with a key from the encrypted keystore (default: KEY_NAME)' },
+  'passphrase-fd': { type: 'integer', valueName: 'n', min: 0, description: 'Read passphrases from file descriptor n (0 for stdin) instead of a prompt' },
+  'secret-fd': { type: 'integer', valueName: 'n', min: 0, description: 'Read the mnemonic or private key from file descriptor n; with the same n as --passphrase-fd it is the first line' },
+  'yes': { type: 'boolean', description: 'Do not ask for confirmation' },
+  'input': { type: 'string', valueName: 'path', description: 'Recipients file, or - for stdin (default: CSV_FILE_PATH or ./recipients.csv)' },
+  'format': { type: 'string', valueName: 'format', choices: getInputFormatNames, description: 'Input format (default: from the file extension, csv for stdin)' },
+  'address-column': { type: 'string', valueName: 'name', description: 'Column or JSON field holding the address (default: address)' },
+  'amount-column': { type: 'string', valueName: 'name', description: 'Column or JSON field holding the amount (default: amount)' },
+  'denom-column': { type: 'string', valueName: 'name', description: 'Column or JSON field holding the denom (default: denom)' },
+  'memo-column': { type: 'string', valueName: 'name', description: 'Column or JSON field holding a per-recipient memo (default: memo)' },
+  'duplicates': { type: 'string', valueName: 'policy', choices: () => ['merge', 'reject'], description: 'Rows with the same address: merge (sum them) or reject (default)' },
+  'amount-unit': { type: 'string', valueName: 'unit', choices: () => ['base', 'display'], description: 'Input amounts are base units (base, default) or human-readable like 12.5 (display)' },
+  'batch-size': { type: 'integer', valueName: 'n', min: 1, description: 'Recipients per batch (default: 400)' },
+  'min-batch-size': { type: 'integer', valueName: 'n', min: 1, description: 'Smallest batch a too-big batch is split down to (default: 10)' },
+  'max-retries': { type: 'integer', valueName: 'n', min: 0, description: 'Retry attempts per batch (default: 3)' },
+  'retry-delay': { type: 'integer', valueName: 'ms', min: 0, description: 'Delay before the first retry, doubled after every attempt (default: 5000)' },
+  'resume': { type: 'boolean', description: 'Resume the last run from run-journal.json, skipping confirmed batches' },
+  'pipeline': { type: 'boolean', description: 'Sign batches ahead and keep several transactions in flight' },
+  'max-in-flight': { type: 'integer', valueName: 'n', min: 1, description: 'Transactions in flight, implies --pipeline (default: 5)' },
+  'senders': { type: 'string', valueName: 'n|list', description: 'Derived sender accounts: a count, account indices or HD paths (default: SENDER_ACCOUNTS)' },
+  'granter': { type: 'string', valueName: 'address', description: 'Send the tokens of an account that granted this key a SendAuthorization (default: AUTHZ_GRANTER)' },
+  'fee-granter': { type: 'string', valueName: 'address', description: 'Have an account that granted this key a fee allowance pay the fees (default: FEE_GRANTER)' },
+  'batch': { type: 'string', valueName: 'label', pattern: /^\d+(\.\d+)*$/, description: 'Only retry this batch, or a part of a split batch such as 3.2' },
+  'sender': { type: 'string', valueName: 'address', description: 'Sender address when no key is configured' },
+  'unsigned-dir': { type: 'string', valueName: 'path', description: 'Directory for unsigned batches (default: ./unsigned-txs)' },
+  'signed-dir': { type: 'string', valueName: 'path', description: 'Directory for signed batches (default: ./signed-txs)' },
+  'multisig-dir': { type: 'string', valueName: 'path', description: 'Directory for multisig batches (default: ./multisig)' },
+  'gas-limit': { type: 'integer', valueName: 'n', min: 1, description: 'Gas limit per batch when the batches cannot be simulated' },
+  'campaign': { type: 'string', valueName: 'id', description: 'Tag every transaction with a memo for this campaign (default: CAMPAIGN_ID)' },
+  'memo': { type: 'string', valueName: 'template', description: 'Memo template with {campaign}, {batch}, {batches} and {inputHash} (default: MEMO_TEMPLATE or multisend:{campaign} batch {batch}/{batches})' },
+  'simulate': { type: 'boolean', description: 'Send to a chain simulated in memory instead of the network; nothing is written to disk' },
+  'simulate-faults': {
+    type: 'string',
+    valueName: 'list',
+    pattern: new RegExp(`^(${SIMULATED_FAULTS.join('|')})@\\d+(,(${SIMULATED_FAULTS.join('|')})@\\d+)*$`),
+    description: `Make simulated broadcasts go wrong, e.g. timeout@2,out-of-gas@5 (${SIMULATED_FAULTS.join(', ')})`
+  }
+};
+
+const GLOBAL_OPTIONS = ['network', 'json', 'help'];
+const WALLET_OPTIONS = ['key', 'passphrase-fd'];
+const INPUT_OPTIONS = ['input', 'format', 'address-column', 'amount-column', 'denom-column', 'memo-column', 'duplicates', 'amount-unit'];
+
+export interface CommandSpec {
+  name: string; // e.g. send, or keys add for a command in a group
+  summary: string;
+  args?: string[]; // Required positional arguments, e.g. <name>
+  options: string[];
+}
+
+export const COMMANDS: CommandSpec[] = [
+  { name: 'plan', summary: 'Show how the recipients are split into batches, without sending', options: [...INPUT_OPTIONS, 'batch-size'] },
+  {
+    name: 'send',
+    summary: 'Send the recipients in batches, or resume the last run',
+    options: [
+      ...INPUT_OPTIONS, ...WALLET_OPTIONS, 'batch-size', 'min-batch-size', 'max-retries', 'retry-delay', 'resume',
+      'pipeline', 'max-in-flight', 'senders', 'granter', 'fee-granter', 'campaign', 'memo', 'simulate', 'simulate-faults'
+    ]
+  },
+  { name: 'retry', summary: 'Retry the failed batches of earlier runs', options: [...WALLET_OPTIONS, 'batch', 'max-retries', 'granter', 'fee-granter'] },
+  { name: 'status', summary: 'Show the state of the last run from its journal and results', options: [] },
+  { name: 'verify', summary: 'Check recorded transactions on chain and reconcile them with the input', options: [...INPUT_OPTIONS] },
+  { name: 'find', summary: 'Find the transactions of a campaign by the tag in their memos', args: ['<campaign>'], options: [...WALLET_OPTIONS, 'sender', 'memo'] },
+  { name: 'balance', summary: 'Show the balances of the sending account', options: [...WALLET_OPTIONS, 'granter'] },
+  { name: 'endpoints', summary: "Check the health of the network's RPC endpoints", options: [] },
+  { name: 'validate', summary: 'Check the input and print a line-numbered error report', options: [...INPUT_OPTIONS] },
+  { name: 'sweep', summary: 'Send what the sender accounts have left back to the main account', options: [...WALLET_OPTIONS, 'senders'] },
+  { name: 'offline export', summary: 'Write unsigned batch transactions for offline signing (online machine)', options: [...INPUT_OPTIONS, ...WALLET_OPTIONS, 'batch-size', 'sender', 'unsigned-dir'] },
+  { name: 'offline sign', summary: 'Sign exported batches without network access (offline machine)', options: [...WALLET_OPTIONS, 'unsigned-dir', 'signed-dir'] },
+  { name: 'offline broadcast', summary: 'Broadcast signed batches in order (online machine)', options: ['signed-dir'] },
+  { name: 'multisig prepare', summary: 'Build batches paid from MULTISIG_ADDRESS and write a sign doc for each', options: [...INPUT_OPTIONS, 'batch-size', 'multisig-dir', 'gas-limit'] },
+  { name: 'multisig sign', summary: "Add this wallet's signature to every prepared batch (works offline)", options: [...WALLET_OPTIONS, 'multisig-dir'] },
+  { name: 'multisig status', summary: 'Show which signatures each batch is still missing', options: ['multisig-dir'] },
+  { name: 'multisig broadcast', summary: 'Combine signatures once the threshold is met and broadcast in order', options: ['multisig-dir'] },
+  { name: 'keys add', summary: 'Generate a new mnemonic and store it encrypted', args: ['<name>'], options: ['passphrase-fd'] },
+  { name: 'keys import', summary: 'Store an existing mnemonic or private key encrypted', args: ['<name>'], options: ['passphrase-fd', 'secret-fd'] },
+  { name: 'keys list', summary: 'Show the stored keys and their addresses', options: [] },
+  { name: 'keys delete', summary: 'Remove a key from the keystore', args: ['<name>'], options: ['yes'] }
+];
+
+// Parsed options, by the camelCase form of their names
+export interface CliOptions {
+  network?: string;
+  json?: boolean;
+  help?: boolean;
+  key?: string;
+  passphraseFd?: number;
+  secretFd?: number;
+  yes?: boolean;
+  input?: string;
+  format?: string;
+  addressColumn?: string;
+  amountColumn?: string;
+  denomColumn?: string;
+  memoColumn?: string;
+  duplicates?: 'merge' | 'reject';
+  amountUnit?: 'base' | 'display';
+  batchSize?: number;
+  minBatchSize?: number;
+  maxRetries?: number;
+  retryDelay?: number;
+  resume?: boolean;
+  pipeline?: boolean;
+  maxInFlight?: number;
+  senders?: string;
+  granter?: string;
+  feeGranter?: string;
+  batch?: string;
+  sender?: string;
+  unsignedDir?: string;
+  signedDir?: string;
+  multisigDir?: string;
+  gasLimit?: number;
+  campaign?: string;
+  memo?: string;
+  simulate?: boolean;
+  simulateFaults?: string;
+}
+
+export interface CommandLine {
+  command: CommandSpec | null; // No command: show the general help
+  args: string[];
+  options: CliOptions;
+}
+
+/**
+ * Parse the command line strictly: a known command, only the options it takes, each at most once,
+ * and values of the right type. Throws a UsageError otherwise.
+ */
+export function parseCommandLine(argv: string[]): CommandLine {
+  const positionals = argv.filter(arg => !arg.startsWith('-') || arg === '-');
+  const groups = new Set(COMMANDS.filter(spec => spec.name.includes(' ')).map(spec => spec.name.split(' ')[0]));
+  const wantsHelp = argv.includes('--help') || argv.includes('-h');
+
+  let command: CommandSpec | null = null;
+  let args: string[] = [];
+  if (positionals.length > 0) {
+    const name = groups.has(positionals[0]) ? positionals.slice(0, 2).join(' ') : positionals[0];
+    command = COMMANDS.find(spec => spec.name === name) || null;
+
+    if (!command && !(groups.has(positionals[0]) && positionals.length === 1 && wantsHelp)) {
+      throw new UsageError(
+        groups.has(positionals[0]) && positionals.length === 1
+          ? `Use one of: ${COMMANDS.filter(spec => spec.name.startsWith(`${positionals[0]} `)).map(spec => spec.name).join(', ')}`
+          : `Unknown command "${name}"`
+      );
+    }
+    args = positionals.slice(name.split(' ').length);
+  }
+
+  const allowed = new Set([...GLOBAL_OPTIONS, ...(command?.options || [])]);
+  const options: Record<string, string | number | boolean> = {};
+
+  for (const arg of argv.filter(entry => entry.startsWith('-') && entry !== '-')) {
+    if (arg === '-h') {
+      options.help = true;
+      continue;
+    }
+
+    const [name, ...valueParts] = arg.replace(/^--/, '').split('=');
+    const value = valueParts.length > 0 ? valueParts.join('=') : undefined;
+    const spec = OPTIONS[name];
+    const key = name.replace(/-([a-z])/g, (_, letter: string) => letter.toUpperCase());
+
+    if (!arg.startsWith('--') || !spec) {
+      throw new UsageError(`Unknown option ${arg}`, command?.name);
+    }
+    if (!allowed.has(name)) {
+      throw new UsageError(command ? `${command.name} does not take --${name}` : `--${name} needs a command`, command?.name);
+    }
+    if (key in options) {
+      throw new UsageError(`--${name} is given more than once`, command?.name);
+    }
+    options[key] = parseOptionValue(name, spec, value, command?.name);
+  }
+
+  if (command && !options.help && args.length !== (command.args || []).length) {
+    throw new UsageError(
+      args.length < (command.args || []).length
+        ? `${command.name} needs ${command.args!.join(' ')}`
+        : `Unexpected argument "${args[(command.args || []).length]}"`,
+      command.name
+    );
+  }
+
+  return { command, args, options: options as CliOptions };
+}
+
+/**
+ * The general help, or the help of one command
+ */
+export function formatHelp(command?: CommandSpec | null): string {
+  const optionLines = (names: string[]) => names.map(name => {
+    const spec = OPTIONS[name];
+    const flag = `--${name}${spec.type === 'boolean' ? '' : `=<${spec.valueName}>`}${name === 'help' ? ', -h' : ''}`;
+    const choices = spec.choices ? ` (${spec.choices().join(', ')})` : '';
+    return `  ${flag.padEnd(27)}${spec.description}${choices}`;
+  }).join('\n');
+
+  if (command) {
+    return [
+      `Usage: npm start -- ${command.name}${command.args ? ` ${command.args.join(' ')}` : ''}${command.options.length > 0 ? ' [options]' : ''}`,
+      '',
+      `${command.summary}.`,
+      ...(command.options.length > 0 ? ['', 'Options:', optionLines(command.options)] : []),
+      '',
+      'Global options:',
+      optionLines(GLOBAL_OPTIONS),
+      ''
+    ].join('\n');
+  }
+
+  return [
+    'Zigchain MultiSend',
+    '',
+    'Usage: npm start -- <command> [options]',
+    '',
+    'Commands:',
+    ...COMMANDS.map(spec => `  ${`${spec.name}${spec.args ? ` ${spec.args.join(' ')}` : ''}`.padEnd(27)}${spec.summary}`),
+    '',
+    'Global options:',
+    optionLines(GLOBAL_OPTIONS),
+    '',
+    'Run npm start -- <command> --help for the options of a command.',
+    '',
+    `Exit codes: ${EXIT_OK} success, ${EXIT_FAILURE} failure (including failed batches, invalid input and unpaid recipients), ${EXIT_USAGE} invalid command line`,
+    '',
+    'Examples:',
+    '  npm start -- plan --batch-size=300       Show the batches without sending',
+    '  npm start -- send                        Send to every recipient in recipients.csv',
+    '  npm start -- send --resume               Continue a run that was interrupted',
+    '  npm start -- retry --batch=2             Retry only batch #2',
+    '  npm start -- status --json               The state of the last run, for scripts',
+    '  npm start -- send --network=mainnet      Send on mainnet',
+    '  npm start -- send --simulate             Rehearse a run without a network',
+    '  npm start -- find airdrop-q4             Find the transactions of campaign airdrop-q4',
+    ''
+  ].join('\n');
+}
+
+function parseOptionValue(name: string, spec: OptionSpec, value: string | undefined, command?: string): string | number | boolean {
+  if (spec.type === 'boolean') {
+    if (value !== undefined) {
+      throw new UsageError(`--${name} does not take a value`, command);
+    }
+    return true;
+  }
+
+  if (value === undefined || value === '') {
+    throw new UsageError(`--${name} needs a value: --${name}=<${spec.valueName}>`, command);
+  }
+
+  if (spec.type === 'integer') {
+    const number = /^\d+$/.test(value) ? parseInt(value, 10) : NaN;
+    if (isNaN(number) || number < (spec.min ?? 0)) {
+      throw new UsageError(`Invalid --${name} "${value}", use a whole number of at least ${spec.min ?? 0}`, command);
+    }
+    return number;
+  }
+
+  const choices = spec.choices?.();
+  if (choices && !choices.includes(value)) {
+    throw new UsageError(`Invalid --${name} "${value}", use one of: ${choices.join(', ')}`, command);
+  }
+  if (spec.pattern && !spec.pattern.test(value)) {
+    throw new UsageError(`Invalid --${name} "${value}"`, command);
+  }
+  return value;
+}
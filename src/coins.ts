@@ -0,0 +1,76 @@
+import { Coin, DenomUnit, Recipient } from './types';
+import { formatAmount } from './amounts';
+
+/**
+ * Parse a coin list such as `1000uzig,25ibc/ABC...` (`;` is accepted as a separator too).
+ * Decimal amounts such as `12.5uzig` are only accepted when allowed; they are converted to base units later.
+ */
+export function parseCoinList(value: string, allowDecimals: boolean = false): Coin[] {
+  const parts = value.replace(/\s+/g, '').split(/[,;]/).filter(Boolean);
+
+  if (parts.length === 0) {
+    throw new Error(`Invalid coin list: ${value}`);
+  }
+
+  return parts.map(part => {
+    const match = part.match(/^(\d*\.?\d+)([a-zA-Z][a-zA-Z0-9/:._-]{2,127})$/);
+
+    if (!match || (!allowDecimals && match[1].includes('.'))) {
+      throw new Error(`Invalid coin "${part}" in ${value}`);
+    }
+
+    return { denom: match[2], amount: match[1] };
+  });
+}
+
+/**
+ * Get the coins a recipient should receive, falling back to the default denom.
+ * A denom listed twice is paid once with the amounts added, since the bank module refuses repeated denoms.
+ */
+export function getRecipientCoins(recipient: Recipient, defaultDenom: string): Coin[] {
+  if (recipient.coins && recipient.coins.length > 0) {
+    const coins = sortCoins(recipient.coins);
+    return coins.some((coin, index) => index > 0 && coin.denom === coins[index - 1].denom) ? addCoinLists(coins) : coins;
+  }
+
+  return [{ denom: recipient.denom || defaultDenom, amount: recipient.amount }];
+}
+
+/**
+ * Sum coins per denom. The result is sorted by denom as the bank module requires.
+ */
+export function addCoinLists(...lists: Coin[][]): Coin[] {
+  const totals = new Map<string, bigint>();
+
+  for (const list of lists) {
+    for (const coin of list) {
+      totals.set(coin.denom, (totals.get(coin.denom) || BigInt(0)) + BigInt(coin.amount));
+    }
+  }
+
+  return sortCoins(
+    Array.from(totals.entries()).map(([denom, amount]) => ({ denom, amount: amount.toString() }))
+  );
+}
+
+/**
+ * Sum everything the given recipients should receive, per denom
+ */
+export function sumRecipientCoins(recipients: Recipient[], defaultDenom: string): Coin[] {
+  return addCoinLists(...recipients.map(recipient => getRecipientCoins(recipient, defaultDenom)));
+}
+
+/**
+ * Sort coins by denom
+ */
+export function sortCoins(coins: Coin[]): Coin[] {
+  return [...coins].sort((a, b) => (a.denom < b.denom ? -1 : a.denom > b.denom ? 1 : 0));
+}
+
+/**
+ * Format coins for display, e.g. `1000000 uzig (1 ZIG) + 25 ufoo`.
+ * The human-readable figure is shown for denoms with a known display unit.
+ */
+export function formatCoins(coins: readonly Coin[], denomUnits: Record<string, DenomUnit> = {}): string {
+  return coins.map(coin => formatAmount(coin.amount, coin.denom, denomUnits)).join(' + ');
+}
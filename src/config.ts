@@ -1,11 +1,23 @@
 import dotenv from 'dotenv';
-import { ZigchainConfig, WalletConfig, Recipient } from './types';
+import { GasPrice } from '@cosmjs/stargate';
+import { ZigchainConfig, WalletConfig, Recipient, MultisigConfig, AmountUnit, ColumnMapping, DelegationConfig } from './types';
 import path from 'path';
-import { readRecipientsFromCsv, getDefaultCsvPath } from './csv-reader';
+import { getDefaultCsvPath } from './csv-reader';
+import { InputOptions, readRecipients, resolveInputFormat, STDIN_PATH } from './input-formats';
+import { DuplicatePolicy, RecipientValidationError } from './validation';
+import { parseDenomUnits } from './amounts';
+import { Keystore } from './keystore';
+import { consoleLogger, Logger } from './logger';
+import { DEFAULT_NETWORK, getNetworkProfile } from './networks';
 
 // Load environment variables from .env file
 dotenv.config({ path: path.resolve(__dirname, '../.env') });
 
+export interface RecipientInputOptions extends InputOptions {
+  duplicatePolicy?: DuplicatePolicy;
+  amountUnit?: AmountUnit;
+}
+
 // Parse recipients from environment variable (legacy method)
 export const parseRecipients = (recipientsString: string): Recipient[] => {
   if (!recipientsString) return [];
@@ -19,43 +31,174 @@ export const parseRecipients = (recipientsString: string): Recipient[] => {
   });
 };
 
-// Get recipients from CSV file
-export const getRecipientsFromCsv = async (csvPath?: string): Promise<Recipient[]> => {
+// Get validated recipients from a CSV, TSV, JSON or JSONL file, or from stdin when the path is "-".
+// Progress and errors go to the logger, the console by default
+export const getRecipients = async (
+  inputPath: string = csvFilePath,
+  options: RecipientInputOptions = {},
+  logger: Logger = consoleLogger
+): Promise<Recipient[]> => {
   try {
-    const filePath = csvPath || getDefaultCsvPath();
-    console.log(`Reading recipients from CSV file: ${filePath}`);
-    return await readRecipientsFromCsv(filePath);
+    const format = resolveInputFormat(inputPath, options.format || inputFormat);
+    logger.info(`Reading recipients from ${inputPath === STDIN_PATH ? 'stdin' : inputPath} (${format})`);
+    return await readRecipients(inputPath, {
+      format,
+      columns: { ...inputColumns, ...options.columns },
+      prefix: walletConfig.prefix || 'zig',
+      defaultDenom: zigchainConfig.denom,
+      duplicatePolicy: options.duplicatePolicy || duplicatePolicy,
+      amountUnit: options.amountUnit || amountUnit,
+      denomUnits: zigchainConfig.denomUnits
+    }, logger);
   } catch (error) {
-    console.error('Error reading recipients from CSV:', error);
+    if (error instanceof RecipientValidationError) {
+      logger.error(`Error: ${error.message}`);
+    } else {
+      logger.error('Error reading recipients:', error);
+    }
     throw error;
   }
 };
 
-// Zigchain configuration
-export const zigchainConfig: ZigchainConfig = {
-  rpcUrl: process.env.ZIGCHAIN_RPC_URL || 'https://testnet-api.zigchain.com/',
-  chainId: process.env.ZIGCHAIN_CHAIN_ID || 'zigchain-testnet',
-  denom: process.env.DENOM || 'uzig'
+// Named network profiles (mainnet, testnet, devnet, ...)
+export const networksFilePath = process.env.NETWORKS_FILE || path.resolve(__dirname, '../networks.json');
+
+/**
+ * Zigchain configuration of a network profile. Variables set in .env override the profile's values.
+ */
+const loadNetworkConfig = (network: string): ZigchainConfig => {
+  const profile = getNetworkProfile(networksFilePath, network);
+  const denom = process.env.DENOM || profile.denom;
+  const feeDenom = process.env.FEE_DENOM || profile.feeDenom || denom;
+  const profileUnit = profile.denomUnits?.[denom];
+  const rpcUrls = process.env.ZIGCHAIN_RPC_URL
+    ? process.env.ZIGCHAIN_RPC_URL.split(',').map(url => url.trim()).filter(Boolean)
+    : profile.rpcUrls;
+
+  // uzig -> ZIG, unless the profile or DISPLAY_DENOM says otherwise
+  const displayDenom = process.env.DISPLAY_DENOM || profileUnit?.display || (denom.startsWith('u') ? denom.substring(1) : denom).toUpperCase();
+
+  return {
+    network,
+    rpcUrl: rpcUrls[0],
+    rpcUrls,
+    rpcRequestsPerSecond: process.env.RPC_REQUESTS_PER_SECOND ? parseFloat(process.env.RPC_REQUESTS_PER_SECOND) : undefined,
+    rpcMaxBlockLag: process.env.RPC_MAX_BLOCK_LAG ? parseInt(process.env.RPC_MAX_BLOCK_LAG, 10) : undefined,
+    chainId: process.env.ZIGCHAIN_CHAIN_ID || profile.chainId,
+    prefix: profile.prefix,
+    denom,
+    feeDenom,
+    gasPrice: process.env.GAS_PRICE || profile.gasPrice,
+    gasMultiplier: parseFloat(process.env.GAS_MULTIPLIER || '1.3'),
+    maxFee: process.env.MAX_FEE || undefined,
+    explorerTxUrl: process.env.EXPLORER_TX_URL || profile.explorerTxUrl || undefined,
+    denomUnits: {
+      ...profile.denomUnits,
+      [denom]: { display: displayDenom, exponent: parseInt(process.env.DENOM_EXPONENT || String(profileUnit?.exponent ?? 6), 10) },
+      ...parseDenomUnits(process.env.DENOM_UNITS || '')
+    }
+  };
 };
 
+export const zigchainConfig: ZigchainConfig = loadNetworkConfig(process.env.NETWORK || DEFAULT_NETWORK);
+
 // Wallet configuration
 export const walletConfig: WalletConfig = {
   mnemonic: process.env.MNEMONIC,
   privateKey: process.env.PRIVATE_KEY,
-  prefix: 'zig' // Zigchain address prefix
+  keyName: process.env.KEY_NAME || undefined, // Takes precedence over MNEMONIC and PRIVATE_KEY
+  keystoreDir: process.env.KEYSTORE_DIR || undefined,
+  passphraseFd: process.env.KEYSTORE_PASSPHRASE_FD ? parseInt(process.env.KEYSTORE_PASSPHRASE_FD, 10) : undefined,
+  prefix: zigchainConfig.prefix // Zigchain address prefix
+};
+
+/**
+ * Switch to another network profile, e.g. from --network
+ */
+export const selectNetwork = (network: string): void => {
+  Object.assign(zigchainConfig, loadNetworkConfig(network));
+  walletConfig.prefix = zigchainConfig.prefix;
+};
+
+// Multisig treasury configuration
+export const multisigConfig: MultisigConfig = {
+  address: process.env.MULTISIG_ADDRESS || undefined,
+  threshold: process.env.MULTISIG_THRESHOLD ? parseInt(process.env.MULTISIG_THRESHOLD, 10) : undefined,
+  pubkeys: (process.env.MULTISIG_PUBKEYS || '').split(',').map(key => key.trim()).filter(Boolean)
 };
 
+// Authz granter whose funds are sent, and fee granter that pays the fees (both optional)
+export const delegationConfig: DelegationConfig = {
+  granter: process.env.AUTHZ_GRANTER || undefined,
+  feeGranter: process.env.FEE_GRANTER || undefined
+};
+
+// Derived sender accounts to spread batches over: a count, account indices or HD paths (see sender-pool.ts)
+export const senderAccounts = process.env.SENDER_ACCOUNTS || undefined;
+
+// Campaign every transaction is tagged with in its memo, and the memo's template (see memo.ts)
+export const campaignId = process.env.CAMPAIGN_ID || undefined;
+export const memoTemplate = process.env.MEMO_TEMPLATE || undefined;
+
 // CSV file path (can be overridden by environment variable)
 export const csvFilePath = process.env.CSV_FILE_PATH || getDefaultCsvPath();
 
+// Input format (csv, tsv, json, jsonl); picked from the file extension when not set
+export const inputFormat = process.env.INPUT_FORMAT || undefined;
+
+// Column (or JSON field) names to read, for inputs that do not use address/amount/denom/memo
+export const inputColumns: Partial<ColumnMapping> = {
+  ...(process.env.ADDRESS_COLUMN ? { address: process.env.ADDRESS_COLUMN } : {}),
+  ...(process.env.AMOUNT_COLUMN ? { amount: process.env.AMOUNT_COLUMN } : {}),
+  ...(process.env.DENOM_COLUMN ? { denom: process.env.DENOM_COLUMN } : {}),
+  ...(process.env.MEMO_COLUMN ? { memo: process.env.MEMO_COLUMN } : {})
+};
+
+// Whether CSV amounts are base units (default) or human-readable amounts such as 12.5
+export const amountUnit: AmountUnit = process.env.AMOUNT_UNIT === 'display' ? 'display' : 'base';
+
+// What to do with several rows for the same address: merge them or reject the file
+export const duplicatePolicy: DuplicatePolicy = process.env.DUPLICATE_POLICY === 'merge' ? 'merge' : 'reject';
+
 // Validate configuration
 export const validateConfig = async (): Promise<boolean> => {
-  if (!walletConfig.mnemonic && !walletConfig.privateKey) {
-    console.error('Error: Either MNEMONIC or PRIVATE_KEY is required in .env file');
+  if (walletConfig.keyName) {
+    if (!new Keystore(walletConfig.keystoreDir).has(walletConfig.keyName)) {
+      console.error(`Error: Key "${walletConfig.keyName}" not found in the keystore, see npm run keys -- list`);
+      return false;
+    }
+  } else if (!walletConfig.mnemonic && !walletConfig.privateKey) {
+    console.error('Error: Either KEY_NAME, MNEMONIC or PRIVATE_KEY is required in .env file');
     return false;
   }
 
   try {
+    const gasPrice = GasPrice.fromString(zigchainConfig.gasPrice);
+    if (gasPrice.denom !== zigchainConfig.feeDenom) {
+      console.error(`Error: GAS_PRICE denom (${gasPrice.denom}) does not match the fee denom (${zigchainConfig.feeDenom})`);
+      return false;
+    }
+
+    if (!(zigchainConfig.gasMultiplier >= 1)) {
+      console.error('Error: GAS_MULTIPLIER must be a number of at least 1');
+      return false;
+    }
+
+    if (zigchainConfig.rpcRequestsPerSecond !== undefined && !(zigchainConfig.rpcRequestsPerSecond >= 0)) {
+      console.error('Error: RPC_REQUESTS_PER_SECOND must be a number of at least 0');
+      return false;
+    }
+
+    if (zigchainConfig.rpcMaxBlockLag !== undefined && !(zigchainConfig.rpcMaxBlockLag >= 0)) {
+      console.error('Error: RPC_MAX_BLOCK_LAG must be a whole number of at least 0');
+      return false;
+    }
+
+    if (zigchainConfig.maxFee !== undefined && !/^\d+$/.test(zigchainConfig.maxFee)) {
+      console.error('Error: MAX_FEE must be an integer amount of the fee denom');
+      return false;
+    }
+
     // We don't validate recipients here anymore since they're loaded asynchronously from CSV
     return true;
   } catch (error) {
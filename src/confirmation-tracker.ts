@@ -0,0 +1,67 @@
+import { IndexedTx } from '@cosmjs/stargate';
+import { ChainClient, RPC_TIMING } from './chain-backend';
+import { consoleLogger, Logger } from './logger';
+
+// A transaction that was accepted into the mempool and has not been seen in a block yet
+export interface TrackedTransaction<T> {
+  transactionHash: string;
+  sequence: number;
+  broadcastAt: number;
+  context: T;
+}
+
+export type SettledTransaction<T> =
+  | { status: 'committed'; tracked: TrackedTransaction<T>; tx: IndexedTx }
+  | { status: 'failed'; tracked: TrackedTransaction<T>; tx: IndexedTx } // Included with an error code
+  | { status: 'timed-out'; tracked: TrackedTransaction<T> }; // Not found in time, it may still be included
+
+/**
+ * Follows broadcast transactions until they are found in a block, independently of sending,
+ * so several transactions can be in flight at once
+ */
+export class ConfirmationTracker<T> {
+  private pending: TrackedTransaction<T>[] = [];
+
+  constructor(
+    private client: ChainClient,
+    private timeoutMs: number = RPC_TIMING.confirmationTimeoutMs,
+    private logger: Logger = consoleLogger
+  ) {}
+
+  /**
+   * Number of transactions in flight
+   */
+  get size(): number {
+    return this.pending.length;
+  }
+
+  track(transactionHash: string, sequence: number, context: T): void {
+    this.pending.push({ transactionHash, sequence, broadcastAt: Date.now(), context });
+  }
+
+  /**
+   * Look up every transaction in flight once, and return those that have settled, in sequence order
+   */
+  async poll(): Promise<SettledTransaction<T>[]> {
+    const settled: SettledTransaction<T>[] = [];
+
+    for (const tracked of this.pending) {
+      let tx: IndexedTx | null = null;
+      try {
+        tx = await this.client.getTx(tracked.transactionHash);
+      } catch (error) {
+        // Looked up again on the next poll, until it times out
+        this.logger.warn(`Could not look up transaction ${tracked.transactionHash}:`, error instanceof Error ? error.message : error);
+      }
+
+      if (tx) {
+        settled.push({ status: tx.code === 0 ? 'committed' : 'failed', tracked, tx });
+      } else if (Date.now() - tracked.broadcastAt > this.timeoutMs) {
+        settled.push({ status: 'timed-out', tracked });
+      }
+    }
+
+    this.pending = this.pending.filter(tracked => !settled.some(entry => entry.tracked === tracked));
+    return settled.sort((a, b) => a.tracked.sequence - b.tracked.sequence);
+  }
+}
@@ -1,49 +1,42 @@
-import fs from 'fs';
 import path from 'path';
+import { Readable, pipeline } from 'stream';
 import csvParser from 'csv-parser';
-import { Recipient } from './types';
+import { RecipientRow } from './validation';
+import { ColumnMapping } from './types';
 
 /**
- * Read recipients from a CSV file
- * @param filePath Path to the CSV file
- * @returns Promise that resolves to an array of Recipients
+ * Stream the rows of a delimited file (CSV or TSV), with their line numbers
+ * @param input Stream of the file contents
+ * @param columns Header names of the address, amount, denom and memo columns
+ * @param separator Column separator
  */
-export async function readRecipientsFromCsv(filePath: string): Promise<Recipient[]> {
-  return new Promise((resolve, reject) => {
-    const results: Recipient[] = [];
-    
-    // Check if file exists
-    if (!fs.existsSync(filePath)) {
-      reject(new Error(`CSV file not found: ${filePath}`));
-      return;
+export async function* readCsvRows(
+  input: Readable,
+  columns: ColumnMapping,
+  separator: string = ','
+): AsyncGenerator<RecipientRow> {
+  const parser = csvParser({ separator, mapHeaders: ({ header }) => header.trim() });
+
+  parser.on('headers', (headers: string[]) => {
+    const missing = [columns.address, columns.amount].filter(column => !headers.includes(column));
+    if (missing.length > 0) {
+      parser.destroy(new Error(
+        `Column ${missing.map(column => `"${column}"`).join(' and ')} not found in the header (${headers.join(', ')}). Use --address-column and --amount-column to map them.`
+      ));
     }
-    
-    fs.createReadStream(filePath)
-      .pipe(csvParser())
-      .on('data', (data) => {
-        // Validate the data has the required fields
-        if (!data.address || !data.amount) {
-          console.warn('Skipping invalid row in CSV:', data);
-          return;
-        }
-        
-        // Add to results
-        results.push({
-          address: data.address.trim(),
-          amount: data.amount.trim()
-        });
-      })
-      .on('end', () => {
-        if (results.length === 0) {
-          reject(new Error('No valid recipients found in the CSV file'));
-          return;
-        }
-        resolve(results);
-      })
-      .on('error', (error) => {
-        reject(error);
-      });
   });
+
+  let rowCount = 0;
+  for await (const data of pipeline(input, parser, () => undefined)) {
+    rowCount++;
+    yield {
+      line: rowCount + 1, // Line 1 is the header
+      address: data[columns.address] || '',
+      amount: data[columns.amount] || '',
+      denom: data[columns.denom] || undefined,
+      memo: data[columns.memo] || undefined
+    };
+  }
 }
 
 /**
@@ -0,0 +1,143 @@
+import { BroadcastTxError, TimeoutError } from '@cosmjs/stargate';
+import { AmbiguousBroadcastError, TransactionFailedError } from './multisend';
+import { ErrorCategory } from './types';
+
+export type ErrorPolicy =
+  | 'backoff' // Retry after an exponentially growing delay
+  | 'requery-sequence' // Retry at once, signing with the sequence queried from the chain
+  | 'resize' // Split the batch into smaller ones
+  | 'fail-batch' // Record the batch as failed and go on with the next one
+  | 'abort-run'; // Stop the run: every later batch would fail the same way
+
+export interface ErrorClassification {
+  category: ErrorCategory;
+  policy: ErrorPolicy;
+  code?: number; // ABCI code, when the chain returned one
+  codespace?: string;
+}
+
+const POLICIES: Record<ErrorCategory, ErrorPolicy> = {
+  'network': 'backoff',
+  'sequence-mismatch': 'requery-sequence',
+  'out-of-gas': 'resize',
+  'insufficient-funds': 'abort-run',
+  'invalid-input': 'abort-run',
+  'chain-rejected': 'fail-batch',
+  'ambiguous': 'fail-batch'
+};
+
+// Cosmos SDK error codes (codespace "sdk")
+const SDK_CODE_CATEGORIES: Record<number, ErrorCategory> = {
+  2: 'invalid-input', // tx parse error
+  4: 'invalid-input', // unauthorized, e.g. signature verification failed
+  5: 'insufficient-funds',
+  7: 'invalid-input', // invalid address
+  8: 'invalid-input', // invalid pubkey
+  10: 'invalid-input', // invalid coins
+  11: 'out-of-gas',
+  12: 'invalid-input', // memo too large
+  13: 'invalid-input', // insufficient fee
+  19: 'network', // already in the mempool cache
+  20: 'network', // mempool is full
+  21: 'out-of-gas', // tx too large
+  28: 'invalid-input', // invalid chain ID
+  32: 'sequence-mismatch'
+};
+
+// Matched against the message when there is no code to go on, first match wins
+const MESSAGE_CATEGORIES: Array<[RegExp, ErrorCategory]> = [
+  [/account sequence mismatch|incorrect account sequence|invalid sequence/i, 'sequence-mismatch'],
+  [/out of gas|tx too large|max size is|exceeds (the )?(max(imum)? )?block gas|block gas limit|gas wanted \d+ is greater than|request entity too large|body too large/i, 'out-of-gas'],
+  [/insufficient funds|insufficient .* balance|spendable balance .* is smaller|more than spend limit|fee limit exceeded/i, 'insufficient-funds'],
+  [/signature verification failed|unauthorized|authorization not found|authorization expired|fee-grant not found|invalid address|decoding bech32 failed|invalid coins|invalid chain-id|chain-id|insufficient fee|exceeds the maximum fee|mnemonic|private key/i, 'invalid-input'],
+  [/timeout|timed out|ECONNREFUSED|ECONNRESET|ETIMEDOUT|ENOTFOUND|EAI_AGAIN|socket hang up|network|fetch failed|bad gateway|service unavailable|gateway timeout|mempool is full|status code 5\d\d/i, 'network']
+];
+
+/**
+ * Sort an error from sending a batch into a category, and the policy for handling it
+ */
+export function classifyError(error: unknown): ErrorClassification {
+  const classify = (category: ErrorCategory, code?: number, codespace?: string): ErrorClassification => ({
+    category,
+    policy: POLICIES[category],
+    ...(code !== undefined ? { code } : {}),
+    ...(codespace !== undefined ? { codespace } : {})
+  });
+
+  if (error instanceof AmbiguousBroadcastError) {
+    return classify('ambiguous');
+  }
+
+  if (error instanceof TimeoutError) {
+    return classify('network');
+  }
+
+  // Rejected by CheckTx, or included in a block with an error code
+  if (error instanceof BroadcastTxError || error instanceof TransactionFailedError) {
+    const codespace = error instanceof BroadcastTxError ? error.codespace : undefined;
+    const log = error instanceof BroadcastTxError ? error.log || '' : error.rawLog;
+    // Included transactions carry no codespace, so only their log can be trusted
+    const byCode = codespace === 'sdk' ? SDK_CODE_CATEGORIES[error.code] : undefined;
+
+    return classify(byCode || categoryFromMessage(log) || 'chain-rejected', error.code, codespace);
+  }
+
+  // Anything unrecognised is treated as transient and retried with backoff
+  const message = error instanceof Error ? error.message : String(error);
+  return classify(categoryFromMessage(message) || 'network');
+}
+
+/**
+ * A short description of a classification, e.g. "chain-rejected (ABCI code 5, codespace bank)"
+ */
+export function describeClassification(classification: ErrorClassification): string {
+  if (classification.code === undefined) {
+    return classification.category;
+  }
+
+  const codespace = classification.codespace ? `, codespace ${classification.codespace}` : '';
+  return `${classification.category} (ABCI code ${classification.code}${codespace})`;
+}
+
+/**
+ * Delay before retry number `retry` (1-based): the base delay doubled after every attempt, capped at 5 minutes
+ */
+export function backoffDelay(baseDelayMs: number, retry: number): number {
+  return Math.min(baseDelayMs * 2 ** (retry - 1), 5 * 60 * 1000);
+}
+
+/**
+ * Thrown when an error means no later batch can succeed either, so the run stops
+ */
+export class RunAbortedError extends Error {
+  constructor(message: string, public readonly classification: ErrorClassification) {
+    super(message);
+    this.name = 'RunAbortedError';
+  }
+}
+
+function categoryFromMessage(message: string): ErrorCategory | undefined {
+  const match = MESSAGE_CATEGORIES.find(([pattern]) => pattern.test(message));
+  return match ? match[1] : undefined;
+}
+
+/**
+ * Thrown when a run is cancelled through its AbortSignal. Transactions already broadcast are settled first,
+ * so the run can be resumed from its journal.
+ */
+export class RunCancelledError extends Error {
+  constructor() {
+    super('The run was cancelled');
+    this.name = 'RunCancelledError';
+  }
+}
+
+/**
+ * Thrown when checks made before sending anything show the run cannot go through
+ */
+export class PreflightError extends Error {
+  constructor(message: string, public readonly problems: string[]) {
+    super(`${message}:\n${problems.map(problem => `   - ${problem}`).join('\n')}`);
+    this.name = 'PreflightError';
+  }
+}
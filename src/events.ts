@@ -0,0 +1,20 @@
+import { EventEmitter } from 'events';
+import { ErrorCategory } from './types';
+import type { RunResult } from './runner';
+
+// Payloads of the progress events of a run, keyed by event name. Labels are batch numbers ("3"),
+// or part labels ("3.1") when a batch was split.
+export interface RunEvents {
+  batchStarted: { batchNumber: number; label: string; recipientCount: number; sender?: string };
+  batchBroadcast: { batchNumber: number; label: string; transactionHash: string; sequence: number };
+  batchConfirmed: { batchNumber: number; label: string; transactionHash: string; height?: number };
+  batchFailed: { batchNumber: number; label: string; error: string; category: ErrorCategory };
+  runCompleted: RunResult;
+}
+
+export type RunEventName = keyof RunEvents;
+
+/**
+ * Emits typed progress events: `emitter.on('batchConfirmed', event => ...)`
+ */
+export class RunEventEmitter extends EventEmitter<{ [E in RunEventName]: [RunEvents[E]] }> {}
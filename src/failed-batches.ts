@@ -0,0 +1,68 @@
+import { BroadcastAttempt, FailedBatch } from './types';
+import { RunStorage } from './storage';
+import { computeRecipientsChecksum, RunJournal } from './run-journal';
+
+export const FAILED_BATCHES_FILE = 'failed-batches.json';
+
+/**
+ * The batches waiting for a retry, none when there is no failed batches file
+ */
+export function readFailedBatches(storage: RunStorage): FailedBatch[] {
+  const content = storage.read(FAILED_BATCHES_FILE);
+  return content ? JSON.parse(content) : [];
+}
+
+/**
+ * Label of an entry: its batch number, or its part label if the batch was split
+ */
+export function getFailedBatchLabel(entry: FailedBatch): string {
+  return entry.label || String(entry.batchNumber);
+}
+
+/**
+ * Whether an entry is a batch or part of the journalled run, rather than of an earlier run
+ */
+export function belongsToRun(entry: FailedBatch, journal: RunJournal): boolean {
+  if (entry.runId && entry.runId !== journal.runId) {
+    return false;
+  }
+
+  try {
+    return journal.getSegment(getFailedBatchLabel(entry)).recipientsChecksum === computeRecipientsChecksum(entry.recipients);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Transactions signed for a batch or part of the journalled run according to its entry, none when it has no entry
+ */
+export function getFailedBatchAttempts(storage: RunStorage, journal: RunJournal, label: string): BroadcastAttempt[] {
+  const entry = readFailedBatches(storage).find(batch => getFailedBatchLabel(batch) === label && belongsToRun(batch, journal));
+  return entry?.attempts || [];
+}
+
+/**
+ * The attempts of several records of the same batch, such as the run journal and failed-batches.json,
+ * with each transaction once
+ */
+export function mergeAttempts(...lists: Array<BroadcastAttempt[] | undefined>): BroadcastAttempt[] {
+  const merged = new Map<string, BroadcastAttempt>();
+  for (const attempt of lists.flatMap(list => list || [])) {
+    merged.set(attempt.transactionHash, attempt);
+  }
+  return [...merged.values()];
+}
+
+/**
+ * Whether two entries record the same batch or part of the same run, such as an entry and its copy read again from the file
+ */
+export function isSameFailedBatch(entry: FailedBatch, other: FailedBatch): boolean {
+  return getFailedBatchLabel(entry) === getFailedBatchLabel(other) &&
+    entry.runId === other.runId &&
+    computeRecipientsChecksum(entry.recipients) === computeRecipientsChecksum(other.recipients);
+}
+
+export function writeFailedBatches(storage: RunStorage, failedBatches: FailedBatch[]): void {
+  storage.write(FAILED_BATCHES_FILE, JSON.stringify(failedBatches, null, 2));
+}
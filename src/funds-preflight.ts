@@ -0,0 +1,78 @@
+import { Coin, DenomUnit } from './types';
+import { formatCoins, sortCoins } from './coins';
+
+// An account, or a group of accounts, paying for part of a run
+export interface PlannedPayer {
+  description: string; // Who pays what, e.g. "zig1abc... pays the amounts and fees"
+  needed: Coin[];
+  spendable: Coin[]; // Of the needed denoms, leaving out vesting and locked coins
+  left: Coin[]; // Spendable balance left once the run is done
+  shortfall: Coin[]; // What is missing for the run to finish, empty when it is covered
+}
+
+// What a run will send and spend, worked out before anything is broadcast
+export interface RunPlan {
+  batches: number; // Batches, or parts of split batches, still to send
+  recipients: number;
+  amounts: Coin[];
+  fees: Coin[]; // Estimated fees of every batch still to send, and of funding sender accounts
+  payers: PlannedPayer[];
+}
+
+/**
+ * Compare what a payer needs with its spendable balances
+ */
+export function planPayer(description: string, needed: Coin[], spendableBalances: readonly Coin[]): PlannedPayer {
+  const spendable = needed.map(coin => ({
+    denom: coin.denom,
+    amount: spendableBalances
+      .filter(balance => balance.denom === coin.denom)
+      .reduce((sum, balance) => sum + BigInt(balance.amount), 0n)
+      .toString()
+  }));
+  const difference = needed.map((coin, index) => BigInt(spendable[index].amount) - BigInt(coin.amount));
+
+  return {
+    description,
+    needed: sortCoins(needed),
+    spendable: sortCoins(spendable),
+    left: sortCoins(needed.map((coin, index) => ({ denom: coin.denom, amount: (difference[index] > 0n ? difference[index] : 0n).toString() }))),
+    shortfall: sortCoins(needed
+      .map((coin, index) => ({ denom: coin.denom, amount: (-difference[index]).toString() }))
+      .filter(coin => BigInt(coin.amount) > 0n))
+  };
+}
+
+/**
+ * The plan as lines for the log
+ */
+export function formatRunPlan(plan: RunPlan, denomUnits: Record<string, DenomUnit> = {}): string[] {
+  const format = (coins: Coin[]) => (coins.length > 0 ? formatCoins(coins, denomUnits) : 'none');
+
+  return [
+    '\nRun plan:',
+    `   Batches to send: ${plan.batches}`,
+    `   Recipients: ${plan.recipients}`,
+    `   Amounts: ${format(plan.amounts)}`,
+    `   Estimated fees: ${format(plan.fees)}`,
+    ...plan.payers.flatMap(payer => [
+      `   ${payer.description}`,
+      `      needs ${format(payer.needed)}, can spend ${format(payer.spendable)}`,
+      payer.shortfall.length > 0
+        ? `      short by ${format(payer.shortfall)}`
+        : `      left afterwards ${format(payer.left)}`
+    ])
+  ];
+}
+
+/**
+ * Why the payers cannot fund the whole run, empty when they can
+ */
+export function describeShortfalls(plan: RunPlan, denomUnits: Record<string, DenomUnit> = {}): string[] {
+  return plan.payers
+    .filter(payer => payer.shortfall.length > 0)
+    .map(payer =>
+      `${payer.description}: needs ${formatCoins(payer.needed, denomUnits)} but can spend ${formatCoins(payer.spendable, denomUnits)}, ` +
+      `short by ${formatCoins(payer.shortfall, denomUnits)}`
+    );
+}
@@ -1,147 +1,652 @@
-import { validateConfig, walletConfig, zigchainConfig, getRecipientsFromCsv, csvFilePath } from './config';
+import { validateConfig, walletConfig, zigchainConfig, multisigConfig, getRecipients, csvFilePath, RecipientInputOptions, senderAccounts, delegationConfig, selectNetwork, campaignId, memoTemplate } from './config';
 import { WalletService } from './wallet';
 import { MultiSendService } from './multisend';
-import { BatchProcessor } from './batch-processor';
-import { FailedBatchRetrier } from './retry-failed-batches';
-import fs from 'fs';
+import { formatCoins, sumRecipientCoins } from './coins';
+import { formatAmount } from './amounts';
+import { splitIntoBatches } from './batch-plan';
+import { JOURNAL_FILE, RunJournal } from './run-journal';
+import { MultiSendRunner, MultiSendRunnerOptions } from './runner';
+import { FileStorage, MemoryStorage } from './storage';
+import { SimulatedChain, SimulatedFault } from './simulated-chain';
+import { PreflightError, RunAbortedError } from './errors';
+import { TransactionVerifier } from './verify';
+import { OfflineSigningService } from './offline-signing';
+import { MultisigService } from './multisig';
+import { RecipientValidationError } from './validation';
+import { DelegationConfig, Recipient } from './types';
+import { STDIN_PATH } from './input-formats';
+import { parseSenderAccounts, SenderPool } from './sender-pool';
+import { runKeysCommand } from './keys-command';
+import { KeystoreError } from './keystore';
+import { assertChainId, ChainIdMismatchError } from './networks';
+import { createRpcBackend } from './chain-backend';
+import { RpcEndpointError } from './rpc-endpoints';
+import { DEFAULT_MEMO_TEMPLATE, MemoOptions, validateMemoTemplate } from './memo';
+import { CliOptions, CommandLine, EXIT_FAILURE, EXIT_OK, EXIT_USAGE, formatHelp, parseCommandLine, UsageError } from './cli';
 import path from 'path';
 
-// Parse command line arguments
-function parseArgs() {
-  const args = process.argv.slice(2);
-  return {
-    retry: args.includes('--retry'),
-    batchSize: parseInt(args.find(arg => arg.startsWith('--batch-size='))?.split('=')[1] || '400', 10),
-    maxRetries: parseInt(args.find(arg => arg.startsWith('--max-retries='))?.split('=')[1] || '3', 10),
-    retryDelay: parseInt(args.find(arg => arg.startsWith('--retry-delay='))?.split('=')[1] || '5000', 10),
-    specificBatch: args.find(arg => arg.startsWith('--retry-batch='))?.split('=')[1]
-  };
+const DEFAULT_BATCH_SIZE = 400;
+
+// Fee denom base units a simulated sender starts with, on top of the amounts it sends
+const SIMULATED_FEE_FUNDS = '1000000000000';
+
+// What a command did: its exit code, and the result printed with --json
+interface CommandOutcome {
+  exitCode: number;
+  result?: Record<string, unknown>;
 }
 
-async function main() {
-  try {
-    // Parse command line arguments once
-    const args = parseArgs();
-    
-    // Check if we should retry failed batches
-    if (args.retry) {
-      console.log('Retrying failed batches...');
-      const retrier = new FailedBatchRetrier();
-      
-      if (args.specificBatch) {
-        const batchNumber = parseInt(args.specificBatch, 10);
-        if (isNaN(batchNumber)) {
-          console.error('Invalid batch number');
-          process.exit(1);
-        }
-        
-        const success = await retrier.retryBatch(batchNumber, args.maxRetries);
-        if (success) {
-          console.log(`Successfully retried batch #${batchNumber}`);
-          process.exit(0);
-        } else {
-          console.error(`Failed to retry batch #${batchNumber}`);
-          process.exit(1);
-        }
-      } else {
-        const result = await retrier.retryAllBatches(args.maxRetries);
-        console.log(`Retry complete: ${result.success} succeeded, ${result.failed} failed`);
-        process.exit(result.failed > 0 ? 1 : 0);
+type CommandHandler = (commandLine: CommandLine) => Promise<CommandOutcome>;
+
+/**
+ * Recipients come from --input (a file, or - for stdin), CSV_FILE_PATH otherwise
+ */
+function getInput(options: CliOptions): { inputPath: string; inputOptions: RecipientInputOptions } {
+  return {
+    inputPath: options.input || csvFilePath,
+    inputOptions: {
+      duplicatePolicy: options.duplicates,
+      amountUnit: options.amountUnit,
+      format: options.format,
+      columns: {
+        ...(options.addressColumn ? { address: options.addressColumn } : {}),
+        ...(options.amountColumn ? { amount: options.amountColumn } : {}),
+        ...(options.denomColumn ? { denom: options.denomColumn } : {}),
+        ...(options.memoColumn ? { memo: options.memoColumn } : {})
       }
-      return;
     }
-    
-    // Validate configuration
-    if (!(await validateConfig())) {
-      process.exit(1);
+  };
+}
+
+/**
+ * Send on behalf of an authz granter, and have a fee granter pay the fees (flags override the environment)
+ */
+function getDelegation(options: CliOptions): DelegationConfig {
+  return {
+    granter: options.granter || delegationConfig.granter,
+    feeGranter: options.feeGranter || delegationConfig.feeGranter
+  };
+}
+
+/**
+ * Show how the recipients are split into batches
+ */
+async function plan({ options }: CommandLine): Promise<CommandOutcome> {
+  const { inputPath, inputOptions } = getInput(options);
+  const recipients = await getRecipients(inputPath, inputOptions);
+  const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+  const batches = splitIntoBatches(recipients, batchSize);
+  const totals = sumRecipientCoins(recipients, zigchainConfig.denom);
+
+  console.log(`Recipients: ${recipients.length}`);
+  console.log(`Total amount: ${formatCoins(totals, zigchainConfig.denomUnits)}`);
+  console.log(`Batches of ${batchSize}: ${batches.length}`);
+  batches.forEach((batch, index) => {
+    const memo = batch[0].memo ? `, MsgSend with memo "${batch[0].memo}"` : '';
+    console.log(`   Batch #${index + 1}: ${batch.length} recipients, ${formatCoins(sumRecipientCoins(batch, zigchainConfig.denom), zigchainConfig.denomUnits)}${memo}`);
+  });
+
+  return {
+    exitCode: EXIT_OK,
+    result: {
+      recipients: recipients.length,
+      totals,
+      batchSize,
+      batches: batches.map((batch, index) => ({
+        batchNumber: index + 1,
+        recipients: batch.length,
+        totals: sumRecipientCoins(batch, zigchainConfig.denom),
+        ...(batch[0].memo ? { memo: batch[0].memo } : {})
+      }))
     }
+  };
+}
+
+/**
+ * A runner for the configured network and wallet
+ */
+function createRunner(options: CliOptions, overrides: Partial<MultiSendRunnerOptions> = {}): MultiSendRunner {
+  return new MultiSendRunner({ network: zigchainConfig, wallet: walletConfig, delegation: getDelegation(options), ...overrides });
+}
+
+/**
+ * A chain simulated in memory for --simulate, with the faults of --simulate-faults injected
+ */
+function createSimulatedChain(options: CliOptions): SimulatedChain {
+  const chain = new SimulatedChain({ chainId: zigchainConfig.chainId, prefix: zigchainConfig.prefix });
+
+  for (const entry of options.simulateFaults ? options.simulateFaults.split(',') : []) {
+    const [fault, broadcast] = entry.split('@');
+    chain.injectFault(fault as SimulatedFault, parseInt(broadcast, 10));
+  }
+  return chain;
+}
 
-    console.log('Zigchain MultiSend');
-    console.log('------------------');
-    console.log(`Chain ID: ${zigchainConfig.chainId}`);
-    console.log(`RPC URL: ${zigchainConfig.rpcUrl}`);
-    console.log(`Token Denomination: ${zigchainConfig.denom}`);
-    
-    // Initialize wallet service
-    const walletService = new WalletService(walletConfig, zigchainConfig);
-    const senderAddress = await walletService.getAddress();
-    console.log(`\nSender Address: ${senderAddress}`);
-    
-    // Get wallet balance
-    const balance = await walletService.getBalance();
-    console.log(`Balance: ${balance} ${zigchainConfig.denom}`);
-    
-    // Load recipients from CSV file
-    const recipients = await getRecipientsFromCsv(csvFilePath);
-    
-    // Verify we have recipients
-    if (recipients.length === 0) {
-      console.error('Error: No recipients found in CSV file');
-      process.exit(1);
+/**
+ * Give the sender what a simulated run needs: the amounts to send and plenty for fees
+ */
+function fundSimulatedSender(chain: SimulatedChain, senderAddress: string, recipients: Recipient[]): void {
+  chain.fund(senderAddress, [
+    ...sumRecipientCoins(recipients, zigchainConfig.denom),
+    { denom: zigchainConfig.feeDenom, amount: SIMULATED_FEE_FUNDS }
+  ]);
+}
+
+/**
+ * Cancel on the first Ctrl+C, letting transactions in flight settle; a second one stops the process at once
+ */
+function cancelOnInterrupt(): AbortSignal {
+  const controller = new AbortController();
+  process.once('SIGINT', () => {
+    console.error('\nCancelling: no new batches are sent. Press Ctrl+C again to stop at once.');
+    controller.abort();
+  });
+  return controller.signal;
+}
+
+/**
+ * The campaign memo from --campaign and --memo, which override CAMPAIGN_ID and MEMO_TEMPLATE
+ */
+function getMemo(options: CliOptions, command: string): MemoOptions | undefined {
+  const campaign = options.campaign || campaignId;
+  const template = options.memo || memoTemplate;
+  if (!campaign) {
+    if (options.memo) {
+      throw new UsageError('--memo needs a campaign: --campaign=<id> or CAMPAIGN_ID', command);
     }
-    
-    // Initialize MultiSend service
-    const multiSendService = new MultiSendService(walletService, zigchainConfig);
-    
-    // Initialize the batch processor with optimized settings
-    console.log(`Using batch size: ${args.batchSize}, max retries: ${args.maxRetries}, retry delay: ${args.retryDelay}ms`);
-    const batchProcessor = new BatchProcessor(args.batchSize, args.maxRetries, args.retryDelay);
-    
-    // Calculate total amount
-    const totalAmount = recipients.reduce(
-      (sum, recipient) => sum + BigInt(recipient.amount),
-      BigInt(0)
-    );
-    
-    // Display total number of recipients and total amount
-    console.log(`\nTotal recipients: ${recipients.length}`);
-    console.log(`Total amount to send: ${totalAmount} ${zigchainConfig.denom}`);
-    
-    // Process recipients in batches
-    console.log(`\nProcessing recipients in batches of ${args.batchSize}...`);
-    
-    // Execute MultiSend transactions in batches
-    const transactionHashes = await batchProcessor.processBatches(
-      multiSendService,
-      senderAddress,
-      recipients,
-      zigchainConfig.denom
-    );
-    
-    // Summary of all transactions
-    console.log('\n--- Transaction Summary ---');
-    console.log(`Total batches processed: ${transactionHashes.length}`);
+    return undefined;
+  }
+
+  try {
+    validateMemoTemplate(template || DEFAULT_MEMO_TEMPLATE);
+  } catch (error) {
+    throw new UsageError(error instanceof Error ? error.message : String(error), command);
+  }
+  return { campaign, ...(template ? { template } : {}) };
+}
+
+/**
+ * Send the recipients in batches, or resume the last run from its journal
+ */
+async function send({ options }: CommandLine): Promise<CommandOutcome> {
+  const { inputPath, inputOptions } = getInput(options);
+  const delegation = getDelegation(options);
+
+  // Validate configuration
+  if (!(await validateConfig())) {
+    return { exitCode: EXIT_FAILURE };
+  }
+
+  if (options.simulateFaults && !options.simulate) {
+    throw new UsageError('--simulate-faults needs --simulate', 'send');
+  }
+  if (options.simulate && (options.resume || delegation.granter || delegation.feeGranter)) {
+    throw new UsageError('a simulated run cannot be resumed, and cannot use authz or fee grants', 'send');
+  }
+  const chain = options.simulate ? createSimulatedChain(options) : undefined;
+  // One backend for the whole run, so its connections are reused
+  const backend = chain || createRpcBackend(zigchainConfig);
+
+  // Refuse to send to a node on another chain than the network profile's
+  await assertChainId(zigchainConfig, backend);
+
+  const memo = getMemo(options, 'send');
+  const senderSpec = options.senders || senderAccounts;
+  if (delegation.granter && senderSpec) {
+    throw new UsageError('sender accounts cannot be used with an authz granter, the granter funds every batch', 'send');
+  }
+  if (options.resume && inputPath === STDIN_PATH) {
+    throw new UsageError('a run read from stdin cannot be resumed, because its input cannot be checked. Save the input to a file and use --input=<path>.', 'send');
+  }
+
+  console.log('Zigchain MultiSend');
+  console.log('------------------');
+  console.log(`Network: ${zigchainConfig.network}${chain ? ' (simulated)' : ''}`);
+  console.log(`Chain ID: ${zigchainConfig.chainId}`);
+  console.log(`RPC URL: ${chain ? 'none, the chain is simulated in memory' : (zigchainConfig.rpcUrls || [zigchainConfig.rpcUrl]).join(', ')}`);
+  console.log(`Token Denomination: ${zigchainConfig.denom}`);
+
+  // Load recipients from the input file
+  const recipients = await getRecipients(inputPath, inputOptions);
+
+  // Verify we have recipients
+  if (recipients.length === 0) {
+    console.error('Error: No recipients found in the input');
+    return { exitCode: EXIT_FAILURE };
+  }
+
+  // A simulated run keeps its records in memory, so it cannot overwrite those of a real run
+  const runner = createRunner(options, chain ? { backend, storage: new MemoryStorage() } : { backend });
+  const senderAddress = await runner.getSenderAddress();
+  console.log(`\nSender Address: ${senderAddress}`);
+  if (chain) {
+    fundSimulatedSender(chain, senderAddress, recipients);
+  }
+
+  // Get the balance of the account the tokens are sent from
+  const fundingBalances = await runner.getBalances([zigchainConfig.denom]);
+  if (delegation.granter) {
+    console.log(`Sending on behalf of: ${delegation.granter}`);
+  }
+  if (delegation.feeGranter) {
+    console.log(`Fees paid by: ${delegation.feeGranter}`);
+  }
+  console.log(`Balance: ${formatAmount((fundingBalances.get(zigchainConfig.denom) || 0n).toString(), zigchainConfig.denom, zigchainConfig.denomUnits)}`);
+
+  // Display total number of recipients and total amount
+  console.log(`\nTotal recipients: ${recipients.length}`);
+  console.log(`Total amount to send: ${formatCoins(sumRecipientCoins(recipients, zigchainConfig.denom), zigchainConfig.denomUnits)}`);
+
+  const result = await runner.run(recipients, {
+    inputFile: inputPath,
+    batchSize: options.batchSize ?? DEFAULT_BATCH_SIZE,
+    maxRetries: options.maxRetries,
+    retryDelay: options.retryDelay,
+    minBatchSize: options.minBatchSize,
+    // One transaction at a time unless pipelining
+    maxInFlight: options.pipeline || options.maxInFlight ? options.maxInFlight ?? 5 : 1,
+    resume: options.resume,
+    senders: !options.resume && senderSpec ? parseSenderAccounts(senderSpec) : undefined,
+    memo,
+    signal: cancelOnInterrupt()
+  });
+
+  // Summary of all transactions
+  const { batches } = result;
+  const unconfirmed = batches.planned + batches.signed + batches.broadcast + batches.failed;
+  console.log('\n--- Transaction Summary ---');
+  console.log(`Transactions confirmed: ${result.transactions.length}`);
+  if (chain) {
+    console.log(`Simulated run: ${chain.broadcastCount} broadcasts, nothing was written to disk`);
+  } else {
     console.log(`All transaction hashes saved to: transaction-hashes.txt`);
+    console.log(`Per-recipient results saved to: recipient-results.json and recipient-results.csv`);
+  }
+  if (chain && result.status !== 'completed') {
+    console.log(`\nSimulated run ${result.status} with ${unconfirmed} batches not confirmed (${batches.failed} failed)`);
+  } else if (result.status === 'cancelled') {
+    console.log(`\nRun cancelled with ${unconfirmed} batches not confirmed. Continue it with: npm start -- send --resume`);
+  } else if (result.status === 'incomplete') {
+    console.log(`\n${unconfirmed} batches are not confirmed (${batches.failed} failed). Retry them with: npm start -- retry`);
+  } else {
     console.log('\nMultiSend operations completed successfully!');
-  } catch (error) {
-    console.error('Error:', error);
-    process.exit(1);
   }
+
+  return { exitCode: result.status === 'completed' ? EXIT_OK : EXIT_FAILURE, result: { ...result } };
+}
+
+/**
+ * Retry failed batches from failed-batches.json
+ */
+async function retry({ options }: CommandLine): Promise<CommandOutcome> {
+  console.log('Retrying failed batches...');
+  const backend = createRpcBackend(zigchainConfig);
+  await assertChainId(zigchainConfig, backend);
+
+  // A batch number, or a part label such as 3.2 for a batch that was split
+  const result = await createRunner(options, { backend }).retry({ batch: options.batch, maxRetries: options.maxRetries, signal: cancelOnInterrupt() });
+  if (result.cancelled) {
+    console.log('Retry cancelled');
+  } else if (options.batch) {
+    if (result.failed === 0) {
+      console.log(`Successfully retried batch #${options.batch}`);
+    } else {
+      console.error(`Failed to retry batch #${options.batch}`);
+    }
+  } else {
+    console.log(`Retry complete: ${result.succeeded} succeeded, ${result.failed} failed`);
+  }
+
+  return {
+    exitCode: result.failed > 0 || result.cancelled ? EXIT_FAILURE : EXIT_OK,
+    result: { ...(options.batch ? { batch: options.batch } : {}), ...result }
+  };
+}
+
+/**
+ * Show the state of the last run: its batches, failed batches waiting for a retry and per-recipient results
+ */
+async function status(): Promise<CommandOutcome> {
+  const state = createRunner({}).getState();
+  if (!state) {
+    console.error(`No run found: ${new FileStorage().locate(JOURNAL_FILE)} does not exist`);
+    return { exitCode: EXIT_FAILURE };
+  }
+
+  const { batches, recipients } = state;
+  console.log(`Run: ${state.runId}`);
+  console.log(`Input: ${state.inputFile}`);
+  console.log(`Batches: ${Object.entries(batches).filter(([, count]) => count > 0).map(([batchState, count]) => `${count} ${batchState}`).join(', ')}`);
+  if (state.senders > 0) {
+    console.log(`Sender accounts: ${state.senders}`);
+  }
+  console.log(`Failed batches waiting for a retry: ${state.failedBatches}`);
+  console.log(`Recipients: ${recipients.success} paid, ${recipients.failed} failed, ${recipients.pending} pending`);
+
+  return { exitCode: EXIT_OK, result: { ...state } };
 }
 
-// Run the main function
-main().catch(console.error);
+/**
+ * Reconcile recorded transactions against the input (no wallet needed)
+ */
+async function verify({ options }: CommandLine): Promise<CommandOutcome> {
+  const { inputPath, inputOptions } = getInput(options);
+  const recipients = await getRecipients(inputPath, inputOptions);
+  const verifier = new TransactionVerifier(zigchainConfig);
+  const report = await verifier.verify(recipients);
 
-// Display help if requested
-if (process.argv.includes('--help') || process.argv.includes('-h')) {
-  console.log(`
-Zigchain MultiSend - Usage:
+  verifier.saveReport(report);
+  verifier.printSummary(report);
+  return { exitCode: verifier.isClean(report) ? EXIT_OK : EXIT_FAILURE, result: { summary: report.summary } };
+}
 
-  npm start -- [options]
+/**
+ * Find a campaign's transactions on chain by their memos, signed by --sender or else by the wallet
+ * and the last run's sender accounts
+ */
+async function find({ args, options }: CommandLine): Promise<CommandOutcome> {
+  const memo = getMemo({ ...options, campaign: args[0] }, 'find')!;
+  const transactions = await createRunner(options).findCampaign(memo, options.sender ? [options.sender] : undefined);
 
-Options:
-  --batch-size=<number>    Set the number of recipients per batch (default: 400)
-  --max-retries=<number>   Maximum retry attempts per batch (default: 3)
-  --retry-delay=<number>   Delay in ms between retries (default: 5000)
-  --retry                  Retry all failed batches from previous runs
-  --retry-batch=<number>   Retry a specific failed batch
-  --help, -h               Display this help message
+  for (const tx of transactions) {
+    const outcome = tx.code === 0 ? 'success' : `failed (code ${tx.code})`;
+    console.log(`Batch #${tx.batch ?? '?'} | Hash: ${tx.hash} | Height: ${tx.height} | ${outcome}`);
+  }
+  const failed = transactions.filter(tx => tx.code !== 0).length;
+  console.log(`\n${transactions.length} transactions found for campaign "${memo.campaign}"${failed > 0 ? `, ${failed} of them failed` : ''}`);
 
-Examples:
-  npm start                                Run with default settings
-  npm start -- --batch-size=300            Run with 300 recipients per batch
-  npm start -- --retry                     Retry all failed batches
-  npm start -- --retry-batch=2             Retry only batch #2
-`);
-  process.exit(0);
+  return { exitCode: EXIT_OK, result: { campaign: memo.campaign, transactions } };
 }
+
+/**
+ * Show the balances of the account the tokens are sent from
+ */
+async function balance({ options }: CommandLine): Promise<CommandOutcome> {
+  if (!(await validateConfig())) {
+    return { exitCode: EXIT_FAILURE };
+  }
+
+  const runner = createRunner(options);
+  const address = await runner.getFundingAddress();
+  const balances = await runner.getBalances([zigchainConfig.denom, ...Object.keys(zigchainConfig.denomUnits)]);
+  const coins = Array.from(balances, ([denom, amount]) => ({ denom, amount: amount.toString() }));
+
+  console.log(`Address: ${address}`);
+  for (const coin of coins) {
+    console.log(`   ${formatAmount(coin.amount, coin.denom, zigchainConfig.denomUnits)}`);
+  }
+
+  return { exitCode: EXIT_OK, result: { address, balances: coins } };
+}
+
+/**
+ * Check every RPC endpoint of the network: its block height, whether it is catching up, and its chain
+ */
+async function endpoints(): Promise<CommandOutcome> {
+  const health = await createRpcBackend(zigchainConfig).endpoints.checkHealth();
+
+  for (const endpoint of health) {
+    const details = endpoint.height !== undefined
+      ? `height ${endpoint.height}, chain ${endpoint.chainId}, ${endpoint.latencyMs} ms`
+      : 'no answer';
+    console.log(`${endpoint.healthy ? 'OK  ' : 'SKIP'} ${endpoint.url} (${details})${endpoint.problem ? `: ${endpoint.problem}` : ''}`);
+  }
+
+  const healthy = health.filter(endpoint => endpoint.healthy).length;
+  console.log(`\n${healthy} of ${health.length} endpoints healthy`);
+  return { exitCode: healthy > 0 ? EXIT_OK : EXIT_FAILURE, result: { endpoints: health } };
+}
+
+/**
+ * Only check the input
+ */
+async function validate({ options }: CommandLine): Promise<CommandOutcome> {
+  const { inputPath, inputOptions } = getInput(options);
+  const recipients = await getRecipients(inputPath, inputOptions);
+  console.log(`Input is valid: ${recipients.length} recipients`);
+  return { exitCode: EXIT_OK, result: { recipients: recipients.length } };
+}
+
+/**
+ * Send what the derived sender accounts have left back to the main account
+ */
+async function sweep({ options }: CommandLine): Promise<CommandOutcome> {
+  if (!(await validateConfig())) {
+    return { exitCode: EXIT_FAILURE };
+  }
+  const backend = createRpcBackend(zigchainConfig);
+  await assertChainId(zigchainConfig, backend);
+
+  const storage = new FileStorage();
+  const senderSpec = options.senders || senderAccounts;
+  const hdPaths = senderSpec
+    ? parseSenderAccounts(senderSpec)
+    : RunJournal.exists(storage) ? RunJournal.load(storage).senders.map(sender => sender.hdPath) : [];
+
+  if (hdPaths.length === 0) {
+    throw new UsageError('no sender accounts to sweep, use --senders=<count or list>', 'sweep');
+  }
+
+  const senderPool = await SenderPool.derive(new WalletService(walletConfig, zigchainConfig, backend), zigchainConfig, hdPaths);
+  await senderPool.sweep();
+  return { exitCode: EXIT_OK, result: { senders: senderPool.senders } };
+}
+
+// Offline signing workflow: export (online), sign (offline), broadcast (online)
+function createOfflineService(): { walletService: WalletService; offlineService: OfflineSigningService } {
+  const walletService = new WalletService(walletConfig, zigchainConfig);
+  return {
+    walletService,
+    offlineService: new OfflineSigningService(new MultiSendService(walletService, zigchainConfig), zigchainConfig)
+  };
+}
+
+async function offlineExport({ options }: CommandLine): Promise<CommandOutcome> {
+  const { walletService, offlineService } = createOfflineService();
+  await assertChainId(zigchainConfig, walletService.backend);
+  const { inputPath, inputOptions } = getInput(options);
+  const unsignedDir = options.unsignedDir || path.join(process.cwd(), 'unsigned-txs');
+
+  const senderAddress = options.sender || (await walletService.getAddress());
+  const recipients = await getRecipients(inputPath, inputOptions);
+  const batches = splitIntoBatches(recipients, options.batchSize ?? DEFAULT_BATCH_SIZE);
+  await offlineService.exportUnsigned(senderAddress, batches, unsignedDir);
+  console.log(`\nCopy ${unsignedDir} to the signing machine and run: npm start -- offline sign`);
+  return { exitCode: EXIT_OK, result: { sender: senderAddress, batches: batches.length, unsignedDir } };
+}
+
+async function offlineSign({ options }: CommandLine): Promise<CommandOutcome> {
+  if (!(await validateConfig())) {
+    return { exitCode: EXIT_FAILURE };
+  }
+
+  const { walletService, offlineService } = createOfflineService();
+  const unsignedDir = options.unsignedDir || path.join(process.cwd(), 'unsigned-txs');
+  const signedDir = options.signedDir || path.join(process.cwd(), 'signed-txs');
+  const signed = await offlineService.signUnsigned(walletService, unsignedDir, signedDir);
+  console.log(`\nCopy ${signedDir} back to the online machine and run: npm start -- offline broadcast`);
+  return { exitCode: EXIT_OK, result: { signed: signed.length, signedDir } };
+}
+
+async function offlineBroadcast({ options }: CommandLine): Promise<CommandOutcome> {
+  const { walletService, offlineService } = createOfflineService();
+  await assertChainId(zigchainConfig, walletService.backend);
+
+  const result = await offlineService.broadcastSigned(options.signedDir || path.join(process.cwd(), 'signed-txs'));
+  console.log(`\nBroadcast complete: ${result.success} succeeded, ${result.failed} not sent`);
+  return { exitCode: result.failed > 0 ? EXIT_FAILURE : EXIT_OK, result: { succeeded: result.success, notSent: result.failed } };
+}
+
+// Multisig treasury workflow: prepare sign docs, collect signatures, combine and broadcast
+function createMultisigService(): { walletService: WalletService; multisigService: MultisigService } {
+  const walletService = new WalletService(walletConfig, zigchainConfig);
+  return {
+    walletService,
+    multisigService: new MultisigService(
+      new MultiSendService(walletService, zigchainConfig),
+      zigchainConfig,
+      multisigConfig,
+      walletConfig.prefix
+    )
+  };
+}
+
+function getMultisigDir(options: CliOptions): string {
+  return options.multisigDir || path.join(process.cwd(), 'multisig');
+}
+
+async function multisigPrepare({ options }: CommandLine): Promise<CommandOutcome> {
+  const { walletService, multisigService } = createMultisigService();
+  await assertChainId(zigchainConfig, walletService.backend);
+  const { inputPath, inputOptions } = getInput(options);
+  const multisigDir = getMultisigDir(options);
+
+  const recipients = await getRecipients(inputPath, inputOptions);
+  const batches = splitIntoBatches(recipients, options.batchSize ?? DEFAULT_BATCH_SIZE);
+  const prepared = await multisigService.prepare(batches, multisigDir, options.gasLimit);
+  console.log(`\nShare ${multisigDir} with the multisig members. Each runs: npm start -- multisig sign`);
+  return { exitCode: EXIT_OK, result: { batches: prepared.length, multisigDir } };
+}
+
+async function multisigSign({ options }: CommandLine): Promise<CommandOutcome> {
+  if (!(await validateConfig())) {
+    return { exitCode: EXIT_FAILURE };
+  }
+
+  const { walletService, multisigService } = createMultisigService();
+  const multisigDir = getMultisigDir(options);
+  const signed = await multisigService.sign(walletService, multisigDir);
+  console.log(`\nSigned ${signed} batches`);
+  multisigService.printStatus(multisigDir);
+  return { exitCode: EXIT_OK, result: { signed, batches: multisigService.getStatus(multisigDir) } };
+}
+
+async function multisigStatus({ options }: CommandLine): Promise<CommandOutcome> {
+  const { multisigService } = createMultisigService();
+  const multisigDir = getMultisigDir(options);
+  multisigService.printStatus(multisigDir);
+  return { exitCode: EXIT_OK, result: { batches: multisigService.getStatus(multisigDir) } };
+}
+
+async function multisigBroadcast({ options }: CommandLine): Promise<CommandOutcome> {
+  const { walletService, multisigService } = createMultisigService();
+  await assertChainId(zigchainConfig, walletService.backend);
+  const multisigDir = getMultisigDir(options);
+
+  const result = await multisigService.broadcast(multisigDir);
+  console.log(`\nMultisig broadcast: ${result.success} batches on chain, ${result.pending} pending`);
+  multisigService.printStatus(multisigDir);
+  return { exitCode: result.pending > 0 ? EXIT_FAILURE : EXIT_OK, result: { onChain: result.success, pending: result.pending } };
+}
+
+/**
+ * Manage the encrypted keystore
+ */
+async function keys({ command, args, options }: CommandLine): Promise<CommandOutcome> {
+  const subcommand = command!.name.split(' ')[1] as 'add' | 'import' | 'list' | 'delete';
+  const keyInfos = await runKeysCommand(subcommand, args[0], options, walletConfig, zigchainConfig);
+  return { exitCode: EXIT_OK, result: { keys: keyInfos } };
+}
+
+const COMMAND_HANDLERS: Record<string, CommandHandler> = {
+  'plan': plan,
+  'send': send,
+  'retry': retry,
+  'status': status,
+  'verify': verify,
+  'find': find,
+  'balance': balance,
+  'endpoints': endpoints,
+  'validate': validate,
+  'sweep': sweep,
+  'offline export': offlineExport,
+  'offline sign': offlineSign,
+  'offline broadcast': offlineBroadcast,
+  'multisig prepare': multisigPrepare,
+  'multisig sign': multisigSign,
+  'multisig status': multisigStatus,
+  'multisig broadcast': multisigBroadcast,
+  'keys add': keys,
+  'keys import': keys,
+  'keys list': keys,
+  'keys delete': keys
+};
+
+async function main(): Promise<number> {
+  // Parse and check the whole command line before anything runs
+  let commandLine: CommandLine;
+  try {
+    commandLine = parseCommandLine(process.argv.slice(2));
+  } catch (error) {
+    if (!(error instanceof UsageError)) {
+      throw error;
+    }
+    console.error(`Error: ${error.message}`);
+    console.error(`Run npm start -- ${error.command ? `${error.command} ` : ''}--help for usage.`);
+    return EXIT_USAGE;
+  }
+
+  const { command, options } = commandLine;
+  if (!command || options.help) {
+    console.log(formatHelp(command));
+    return command || options.help ? EXIT_OK : EXIT_USAGE;
+  }
+
+  // Keep stdout for the JSON result; progress goes to stderr
+  const printResult = (result: Record<string, unknown>) => process.stdout.write(`${JSON.stringify(result, null, 2)}\n`);
+  if (options.json) {
+    console.log = console.info = (...args: unknown[]) => console.error(...args);
+  }
+
+  try {
+    // Use another profile from networks.json than NETWORK (default: testnet)
+    if (options.network) {
+      selectNetwork(options.network);
+    }
+
+    // Sign with a keystore key (flags override the environment)
+    if (options.key) {
+      walletConfig.keyName = options.key;
+    }
+    if (options.passphraseFd !== undefined) {
+      walletConfig.passphraseFd = options.passphraseFd;
+    }
+
+    const outcome = await COMMAND_HANDLERS[command.name](commandLine);
+    if (options.json) {
+      printResult({ command: command.name, ok: outcome.exitCode === EXIT_OK, exitCode: outcome.exitCode, ...outcome.result });
+    }
+    return outcome.exitCode;
+  } catch (error) {
+    const exitCode = error instanceof UsageError ? EXIT_USAGE : EXIT_FAILURE;
+
+    // Validation errors have already been reported line by line
+    if (error instanceof RunAbortedError) {
+      console.error(`\nError: ${error.message}`);
+      console.error('Fix the cause, then continue with send --resume or retry.');
+    } else if (
+      error instanceof UsageError ||
+      error instanceof KeystoreError ||
+      error instanceof ChainIdMismatchError ||
+      error instanceof PreflightError ||
+      error instanceof RpcEndpointError
+    ) {
+      console.error(`Error: ${error.message}`);
+    } else if (!(error instanceof RecipientValidationError)) {
+      console.error('Error:', error);
+    }
+
+    if (options.json) {
+      printResult({ command: command.name, ok: false, exitCode, error: error instanceof Error ? error.message : String(error) });
+    }
+    return exitCode;
+  }
+}
+
+// Exit once everything written to stdout has been flushed
+main()
+  .catch(error => {
+    console.error('Error:', error);
+    return EXIT_FAILURE;
+  })
+  .then(exitCode => process.stdout.write('', () => process.exit(exitCode)));
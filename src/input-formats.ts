@@ -0,0 +1,126 @@
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { ColumnMapping, Recipient } from './types';
+import { RecipientRow, RecipientValidationError, RecipientValidator, ValidationOptions } from './validation';
+import { readCsvRows } from './csv-reader';
+import { readJsonLinesRows, readJsonRows } from './json-reader';
+import { Logger, silentLogger } from './logger';
+
+// Input path that reads recipients from standard input
+export const STDIN_PATH = '-';
+
+export const DEFAULT_COLUMNS: ColumnMapping = {
+  address: 'address',
+  amount: 'amount',
+  denom: 'denom',
+  memo: 'memo'
+};
+
+/**
+ * Streams the raw rows of one input format
+ */
+export type RowReader = (input: Readable, columns: ColumnMapping) => AsyncIterable<RecipientRow>;
+
+export interface InputOptions {
+  format?: string; // Picked from the file extension when not set
+  columns?: Partial<ColumnMapping>;
+}
+
+interface InputFormat {
+  reader: RowReader;
+  extensions: string[];
+}
+
+const inputFormats = new Map<string, InputFormat>();
+
+/**
+ * Add an input format, or replace an existing one
+ * @param name Name used with --format
+ * @param reader Streams the rows of the input
+ * @param extensions File extensions (with the dot) that select this format
+ */
+export function registerInputFormat(name: string, reader: RowReader, extensions: string[] = []): void {
+  inputFormats.set(name, { reader, extensions: extensions.map(extension => extension.toLowerCase()) });
+}
+
+registerInputFormat('csv', (input, columns) => readCsvRows(input, columns, ','), ['.csv']);
+registerInputFormat('tsv', (input, columns) => readCsvRows(input, columns, '\t'), ['.tsv', '.tab']);
+registerInputFormat('json', readJsonRows, ['.json']);
+registerInputFormat('jsonl', readJsonLinesRows, ['.jsonl', '.ndjson']);
+
+export function getInputFormatNames(): string[] {
+  return Array.from(inputFormats.keys());
+}
+
+/**
+ * Pick the input format: the explicit one if given, otherwise by file extension.
+ * Standard input and unknown extensions are read as CSV.
+ */
+export function resolveInputFormat(filePath: string, format?: string): string {
+  if (format) {
+    if (!inputFormats.has(format)) {
+      throw new Error(`Unknown input format "${format}", use one of: ${getInputFormatNames().join(', ')}`);
+    }
+    return format;
+  }
+
+  const extension = path.extname(filePath).toLowerCase();
+  for (const [name, inputFormat] of inputFormats) {
+    if (filePath !== STDIN_PATH && inputFormat.extensions.includes(extension)) {
+      return name;
+    }
+  }
+
+  return 'csv';
+}
+
+/**
+ * Stream the raw rows of a file, or of standard input when the path is `-`
+ */
+export function readRecipientRows(filePath: string, options: InputOptions = {}): AsyncIterable<RecipientRow> {
+  const format = inputFormats.get(resolveInputFormat(filePath, options.format))!;
+
+  if (filePath !== STDIN_PATH && !fs.existsSync(filePath)) {
+    throw new Error(`Input file not found: ${filePath}`);
+  }
+
+  const input = filePath === STDIN_PATH ? process.stdin : fs.createReadStream(filePath);
+  return format.reader(input, { ...DEFAULT_COLUMNS, ...options.columns });
+}
+
+/**
+ * Read and validate recipients from a file or standard input. Rows are validated as they stream in.
+ * Throws RecipientValidationError listing every invalid row, so nothing is sent while any remain.
+ * @param filePath Path to the input file, or `-` for standard input
+ * @param options Input format, column mapping, address prefix, default denom and duplicate address policy
+ * @param logger Told how many duplicate address rows were merged, silent by default
+ * @returns Promise that resolves to an array of Recipients
+ */
+export async function readRecipients(
+  filePath: string,
+  options: ValidationOptions & InputOptions,
+  logger: Logger = silentLogger
+): Promise<Recipient[]> {
+  const validator = new RecipientValidator(options);
+
+  for await (const row of readRecipientRows(filePath, options)) {
+    validator.add(row);
+  }
+
+  const { recipients, issues, mergedRows } = validator.getResult();
+
+  if (issues.length > 0) {
+    throw new RecipientValidationError(issues);
+  }
+
+  if (recipients.length === 0) {
+    throw new Error('No valid recipients found in the input');
+  }
+
+  if (mergedRows > 0) {
+    logger.info(`Merged ${mergedRows} duplicate address rows into earlier rows`);
+  }
+
+  return recipients;
+}
@@ -0,0 +1,138 @@
+import readline from 'readline';
+import { Readable } from 'stream';
+import { StringDecoder } from 'string_decoder';
+import { RecipientRow } from './validation';
+import { ColumnMapping } from './types';
+
+/**
+ * Stream the objects of a JSON array such as `[{"address": "zig1...", "amount": "1000"}, ...]`.
+ * Each element is parsed on its own as it arrives, so the whole array is never held in memory.
+ * @param input Stream of the file contents
+ * @param columns Field names of the address, amount, denom and memo
+ */
+export async function* readJsonRows(input: Readable, columns: ColumnMapping): AsyncGenerator<RecipientRow> {
+  const decoder = new StringDecoder('utf8');
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let started = false;
+  let line = 1;
+  let element = '';
+  let elementLine = 0;
+
+  for await (const chunk of input) {
+    const text = typeof chunk === 'string' ? chunk : decoder.write(chunk);
+    let elementStart = depth >= 2 ? 0 : -1;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (char === '\n') {
+        line++;
+      }
+
+      if (inString) {
+        if (escaped) {
+          escaped = false;
+        } else if (char === '\\') {
+          escaped = true;
+        } else if (char === '"') {
+          inString = false;
+        }
+        continue;
+      }
+
+      if (char === '{' || char === '[') {
+        depth++;
+        if (depth === 1) {
+          if (char !== '[' || started) {
+            throw new Error(`Line ${line}: expected the input to be a single JSON array of recipients`);
+          }
+          started = true;
+        } else if (depth === 2) {
+          if (char !== '{') {
+            throw new Error(`Line ${line}: expected a recipient object`);
+          }
+          elementStart = i;
+          elementLine = line;
+        }
+      } else if (char === '}' || char === ']') {
+        depth--;
+        if (depth === 1) {
+          element += text.substring(elementStart, i + 1);
+          yield toRecipientRow(parseJson(element, elementLine), elementLine, columns);
+          element = '';
+          elementStart = -1;
+        } else if (depth < 0) {
+          throw new Error(`Line ${line}: unexpected "${char}"`);
+        }
+      } else if (depth >= 2) {
+        inString = char === '"';
+      } else if (!/[\s,\uFEFF]/.test(char)) {
+        throw new Error(`Line ${line}: expected ${depth === 0 ? 'a JSON array' : 'a recipient object'}`);
+      }
+    }
+
+    if (elementStart >= 0) {
+      element += text.substring(elementStart);
+    }
+  }
+
+  if (!started || depth !== 0) {
+    throw new Error('JSON input ended before the array was closed');
+  }
+}
+
+/**
+ * Stream JSON Lines: one recipient object per line, blank lines ignored
+ * @param input Stream of the file contents
+ * @param columns Field names of the address, amount, denom and memo
+ */
+export async function* readJsonLinesRows(input: Readable, columns: ColumnMapping): AsyncGenerator<RecipientRow> {
+  const lines = readline.createInterface({ input, crlfDelay: Infinity });
+  let line = 0;
+
+  for await (const text of lines) {
+    line++;
+    if (!text.trim()) {
+      continue;
+    }
+
+    yield toRecipientRow(parseJson(text, line), line, columns);
+  }
+}
+
+function parseJson(text: string, line: number): unknown {
+  try {
+    return JSON.parse(text.replace(/^\uFEFF/, ''));
+  } catch (error) {
+    throw new Error(`Line ${line}: invalid JSON (${error instanceof Error ? error.message : error})`);
+  }
+}
+
+/**
+ * Pick the mapped fields out of a parsed record. Numbers are accepted, but amounts beyond
+ * 2^53 lose precision in JSON numbers and should be written as strings.
+ */
+function toRecipientRow(record: unknown, line: number, columns: ColumnMapping): RecipientRow {
+  if (!record || typeof record !== 'object' || Array.isArray(record)) {
+    throw new Error(`Line ${line}: expected a recipient object`);
+  }
+
+  const fields = record as Record<string, unknown>;
+  const field = (name: string): string => {
+    const value = fields[name];
+    if (typeof value === 'number' && !Number.isSafeInteger(value) && Number.isInteger(value)) {
+      throw new Error(`Line ${line}: ${name} ${value} is too large for a JSON number, write it as a string`);
+    }
+    return typeof value === 'string' || typeof value === 'number' ? String(value) : '';
+  };
+
+  return {
+    line,
+    address: field(columns.address),
+    amount: field(columns.amount),
+    denom: field(columns.denom) || undefined,
+    memo: field(columns.memo) || undefined
+  };
+}
@@ -0,0 +1,89 @@
+import { EnglishMnemonic } from '@cosmjs/crypto';
+import { DirectSecp256k1HdWallet } from '@cosmjs/proto-signing';
+import { WalletConfig, ZigchainConfig } from './types';
+import { WalletService } from './wallet';
+import { KeyInfo, Keystore, KeystoreError, KeyType } from './keystore';
+import { confirm, readNewPassphrase, readSecret } from './prompt';
+
+/**
+ * Run a `keys` command and return the keys it added, imported, listed or deleted. Passphrases,
+ * mnemonics and private keys are only ever read from a prompt or a file descriptor, never from the command line.
+ */
+export async function runKeysCommand(
+  command: 'add' | 'import' | 'list' | 'delete',
+  name: string | undefined,
+  options: { passphraseFd?: number; secretFd?: number; yes?: boolean },
+  walletConfig: WalletConfig,
+  networkConfig: ZigchainConfig
+): Promise<KeyInfo[]> {
+  const passphraseFd = options.passphraseFd ?? walletConfig.passphraseFd;
+  const keystore = new Keystore(walletConfig.keystoreDir);
+
+  switch (command) {
+    case 'add': {
+      const keyName = name!;
+      const wallet = await DirectSecp256k1HdWallet.generate(24, { prefix: walletConfig.prefix || 'zig' });
+      const [account] = await wallet.getAccounts();
+      const passphrase = await readNewPassphrase(passphraseFd);
+
+      const key = await keystore.add(keyName, 'mnemonic', wallet.mnemonic, account.address, passphrase);
+      console.log(`Added key "${keyName}": ${account.address}`);
+      console.log('\nWrite down this mnemonic and keep it somewhere safe. It is the only way to recover the key:\n');
+      console.log(wallet.mnemonic);
+      return [key];
+    }
+
+    case 'import': {
+      const keyName = name!;
+      if (keystore.has(keyName)) {
+        throw new KeystoreError(`Key "${keyName}" already exists`);
+      }
+
+      const secret = (await readSecret('Mnemonic or private key: ', options.secretFd)).trim().replace(/\s+/g, ' ');
+      const type: KeyType = /^(0x)?[0-9a-fA-F]{64}$/.test(secret) ? 'private-key' : 'mnemonic';
+      if (type === 'mnemonic') {
+        // Throws on a word that is not in the word list or a bad checksum
+        new EnglishMnemonic(secret);
+      }
+
+      const address = await new WalletService(
+        { prefix: walletConfig.prefix, ...(type === 'mnemonic' ? { mnemonic: secret } : { privateKey: secret }) },
+        networkConfig
+      ).getAddress();
+      const passphrase = await readNewPassphrase(passphraseFd);
+
+      const key = await keystore.add(keyName, type, secret, address, passphrase);
+      console.log(`Imported key "${keyName}" (${type}): ${address}`);
+      return [key];
+    }
+
+    case 'list': {
+      const keys = keystore.list();
+      if (keys.length === 0) {
+        console.log('No keys stored, add one with: npm start -- keys add <name>');
+        return [];
+      }
+
+      for (const key of keys) {
+        console.log(`${key.name.padEnd(20)} ${key.address}  ${key.type.padEnd(11)}  created ${key.createdAt}`);
+      }
+      return keys;
+    }
+
+    case 'delete': {
+      const keyName = name!;
+      const key = keystore.list().find(entry => entry.name === keyName);
+      if (!key) {
+        throw new KeystoreError(`Key "${keyName}" not found`);
+      }
+
+      if (!options.yes && !(await confirm(`Delete key "${keyName}"? It cannot be recovered without its mnemonic or private key.`))) {
+        throw new KeystoreError(`Key "${keyName}" was not deleted`);
+      }
+
+      keystore.delete(keyName);
+      console.log(`Deleted key "${keyName}"`);
+      return [key];
+    }
+  }
+}
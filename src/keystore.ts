@@ -0,0 +1,166 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { promisify } from 'util';
+
+const scrypt = promisify(crypto.scrypt) as (
+  password: crypto.BinaryLike,
+  salt: crypto.BinaryLike,
+  keylen: number,
+  options: crypto.ScryptOptions
+) => Promise<Buffer>;
+
+// scrypt cost parameters for new keys; 128 * N * r bytes of memory (128 MiB)
+const SCRYPT_N = 2 ** 17;
+const SCRYPT_R = 8;
+const SCRYPT_P = 1;
+const KEY_NAME_PATTERN = /^[A-Za-z0-9_.-]+$/;
+
+export type KeyType = 'mnemonic' | 'private-key';
+
+// What can be read about a key without its passphrase
+export interface KeyInfo {
+  name: string;
+  type: KeyType;
+  address: string;
+  createdAt: string;
+}
+
+// A key file: the secret encrypted with AES-256-GCM under a key derived from the passphrase with scrypt
+interface StoredKey extends KeyInfo {
+  version: 1;
+  crypto: {
+    kdf: 'scrypt';
+    kdfParams: { n: number; r: number; p: number; salt: string };
+    cipher: 'aes-256-gcm';
+    iv: string;
+    authTag: string;
+    ciphertext: string;
+  };
+}
+
+export class KeystoreError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'KeystoreError';
+  }
+}
+
+/**
+ * Keys stored encrypted with a passphrase, one JSON file per key in the keystore directory.
+ * The name, type and address are stored in the clear, so keys can be listed without unlocking them.
+ */
+export class Keystore {
+  constructor(private dir: string = Keystore.getDefaultDir()) {}
+
+  static getDefaultDir(): string {
+    return path.join(process.cwd(), 'keystore');
+  }
+
+  list(): KeyInfo[] {
+    if (!fs.existsSync(this.dir)) {
+      return [];
+    }
+
+    return fs.readdirSync(this.dir)
+      .filter(file => file.endsWith('.json'))
+      .map(file => this.read(path.basename(file, '.json')))
+      .map(({ name, type, address, createdAt }) => ({ name, type, address, createdAt }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  has(name: string): boolean {
+    return fs.existsSync(this.keyPath(name));
+  }
+
+  /**
+   * Encrypt a mnemonic or private key with the passphrase and store it under a new name
+   */
+  async add(name: string, type: KeyType, secret: string, address: string, passphrase: string): Promise<KeyInfo> {
+    if (this.has(name)) {
+      throw new KeystoreError(`Key "${name}" already exists in ${this.dir}`);
+    }
+    if (!passphrase) {
+      throw new KeystoreError('The passphrase must not be empty');
+    }
+
+    const salt = crypto.randomBytes(32);
+    const iv = crypto.randomBytes(12);
+    const key = await this.deriveKey(passphrase, salt, SCRYPT_N, SCRYPT_R, SCRYPT_P);
+    const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+    const ciphertext = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+
+    const stored: StoredKey = {
+      version: 1,
+      name,
+      type,
+      address,
+      createdAt: new Date().toISOString(),
+      crypto: {
+        kdf: 'scrypt',
+        kdfParams: { n: SCRYPT_N, r: SCRYPT_R, p: SCRYPT_P, salt: salt.toString('hex') },
+        cipher: 'aes-256-gcm',
+        iv: iv.toString('hex'),
+        authTag: cipher.getAuthTag().toString('hex'),
+        ciphertext: ciphertext.toString('hex')
+      }
+    };
+
+    fs.mkdirSync(this.dir, { recursive: true, mode: 0o700 });
+    const tmpPath = `${this.keyPath(name)}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(stored, null, 2), { encoding: 'utf8', mode: 0o600 });
+    fs.renameSync(tmpPath, this.keyPath(name));
+
+    return { name, type, address, createdAt: stored.createdAt };
+  }
+
+  /**
+   * Decrypt a key's mnemonic or private key. Throws when the passphrase is wrong.
+   */
+  async unlock(name: string, passphrase: string): Promise<{ type: KeyType; secret: string }> {
+    const stored = this.read(name);
+    const { kdfParams, iv, authTag, ciphertext } = stored.crypto;
+    const key = await this.deriveKey(passphrase, Buffer.from(kdfParams.salt, 'hex'), kdfParams.n, kdfParams.r, kdfParams.p);
+
+    const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(iv, 'hex'));
+    decipher.setAuthTag(Buffer.from(authTag, 'hex'));
+
+    try {
+      const secret = Buffer.concat([decipher.update(Buffer.from(ciphertext, 'hex')), decipher.final()]).toString('utf8');
+      return { type: stored.type, secret };
+    } catch {
+      // The authentication tag does not match: wrong passphrase or a tampered file
+      throw new KeystoreError(`Wrong passphrase for key "${name}"`);
+    }
+  }
+
+  delete(name: string): void {
+    if (!this.has(name)) {
+      throw new KeystoreError(`Key "${name}" not found in ${this.dir}`);
+    }
+    fs.unlinkSync(this.keyPath(name));
+  }
+
+  private read(name: string): StoredKey {
+    if (!this.has(name)) {
+      throw new KeystoreError(`Key "${name}" not found in ${this.dir}`);
+    }
+
+    const stored = JSON.parse(fs.readFileSync(this.keyPath(name), 'utf8')) as StoredKey;
+    if (stored.version !== 1 || stored.crypto?.kdf !== 'scrypt' || stored.crypto.cipher !== 'aes-256-gcm') {
+      throw new KeystoreError(`Key file for "${name}" has an unsupported format`);
+    }
+    return stored;
+  }
+
+  private keyPath(name: string): string {
+    if (!KEY_NAME_PATTERN.test(name)) {
+      throw new KeystoreError(`Invalid key name "${name}", use letters, digits, ".", "_" and "-"`);
+    }
+    return path.join(this.dir, `${name}.json`);
+  }
+
+  private deriveKey(passphrase: string, salt: Buffer, n: number, r: number, p: number): Promise<Buffer> {
+    return scrypt(passphrase.normalize('NFKC'), salt, 32, { N: n, r, p, maxmem: 256 * n * r });
+  }
+}
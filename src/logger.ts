@@ -0,0 +1,21 @@
+/**
+ * Where progress messages go. Anything with console-like info, warn and error methods will do.
+ */
+export interface Logger {
+  info(message?: unknown, ...args: unknown[]): void;
+  warn(message?: unknown, ...args: unknown[]): void;
+  error(message?: unknown, ...args: unknown[]): void;
+}
+
+// Looked up on every call, so a redirected console.log (as with --json) is followed
+export const consoleLogger: Logger = {
+  info: (...args) => console.log(...args),
+  warn: (...args) => console.warn(...args),
+  error: (...args) => console.error(...args)
+};
+
+export const silentLogger: Logger = {
+  info: () => {},
+  warn: () => {},
+  error: () => {}
+};
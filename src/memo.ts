@@ -0,0 +1,122 @@
+import { decodeTxRaw } from '@cosmjs/proto-signing';
+import { ChainClient } from './chain-backend';
+
+// Tags every transaction of a campaign, e.g. "multisend:airdrop-q4 batch 3/12"
+export const DEFAULT_MEMO_TEMPLATE = 'multisend:{campaign} batch {batch}/{batches}';
+
+// Hex characters of the input file's checksum put in {inputHash}
+const INPUT_HASH_LENGTH = 12;
+
+// What each placeholder stands for, and what it looks like when searching memos for it
+const PLACEHOLDERS: Record<string, string> = {
+  campaign: '', // Matched literally, as the campaign searched for
+  batch: '\\d+(?:\\.\\d+)*', // Batch number, or part label such as 3.1 when the batch was split
+  batches: '\\d+', // Batches in the run
+  inputHash: `[0-9a-f]{${INPUT_HASH_LENGTH}}` // Start of the input file's SHA-256 checksum
+};
+
+// The memo settings of a run
+export interface MemoOptions {
+  campaign: string;
+  template?: string; // Defaults to DEFAULT_MEMO_TEMPLATE
+}
+
+// Everything needed to write the memo of any batch in a run
+export interface CampaignMemo {
+  template: string;
+  campaign: string;
+  batches: number;
+  inputChecksum: string;
+}
+
+// A transaction found by its memo
+export interface CampaignTransaction {
+  hash: string;
+  height: number;
+  code: number; // 0 when the transaction succeeded
+  memo: string;
+  batch?: string; // From the memo, when the template has {batch}
+}
+
+/**
+ * Check that a template only uses known placeholders, and tags its memos with the campaign so they can be found
+ */
+export function validateMemoTemplate(template: string): void {
+  const unknown = [...template.matchAll(/\{([^}]*)\}/g)].map(match => match[1]).filter(name => !(name in PLACEHOLDERS));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown memo placeholder ${unknown.map(name => `{${name}}`).join(', ')}, use ${Object.keys(PLACEHOLDERS).map(name => `{${name}}`).join(', ')}`);
+  }
+  if (!template.includes('{campaign}')) {
+    throw new Error('The memo template must include {campaign}, so the transactions of a campaign can be found');
+  }
+}
+
+/**
+ * The memo of one batch or part
+ */
+export function formatMemo(memo: CampaignMemo, batchLabel: string): string {
+  const values: Record<string, string> = {
+    campaign: memo.campaign,
+    batch: batchLabel,
+    batches: String(memo.batches),
+    inputHash: memo.inputChecksum.substring(0, INPUT_HASH_LENGTH)
+  };
+
+  return memo.template.replace(/\{(\w+)\}/g, (placeholder, name: string) => values[name] ?? placeholder);
+}
+
+/**
+ * Pattern matching the memos a template writes for a campaign, whatever the batch
+ */
+export function memoPattern(template: string, campaign: string): RegExp {
+  const escape = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const seen = new Set<string>();
+
+  const pattern = template.split(/(\{\w+\})/).map(part => {
+    const name = /^\{(\w+)\}$/.exec(part)?.[1];
+    if (!name || !(name in PLACEHOLDERS)) {
+      return escape(part);
+    }
+    if (name === 'campaign') {
+      return escape(campaign);
+    }
+
+    // Only the first {batch} can be captured, a group name may only be used once
+    const group = seen.has(name) ? '(?:' : `(?<${name}>`;
+    seen.add(name);
+    return `${group}${PLACEHOLDERS[name]})`;
+  });
+
+  return new RegExp(`^${pattern.join('')}$`);
+}
+
+/**
+ * Find the transactions signed by these addresses whose memos a template wrote for a campaign, oldest first
+ */
+export async function findCampaignTransactions(
+  client: ChainClient,
+  signers: string[],
+  template: string,
+  campaign: string
+): Promise<CampaignTransaction[]> {
+  const pattern = memoPattern(template, campaign);
+  const found = new Map<string, CampaignTransaction>();
+
+  for (const signer of signers) {
+    for (const tx of await client.searchTx(`message.sender='${signer}'`)) {
+      const { memo } = decodeTxRaw(tx.tx).body;
+      const match = pattern.exec(memo);
+      if (match) {
+        found.set(tx.hash, {
+          hash: tx.hash,
+          height: tx.height,
+          code: tx.code,
+          memo,
+          ...(match.groups?.batch ? { batch: match.groups.batch } : {})
+        });
+      }
+    }
+  }
+
+  return [...found.values()].sort((a, b) => a.height - b.height);
+}
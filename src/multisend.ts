@@ -1,113 +1,656 @@
-import { coins } from '@cosmjs/amino';
-import { SigningStargateClient } from '@cosmjs/stargate';
-import { Coin, Input, MultiSendTx, Output, Recipient, ZigchainConfig } from './types';
+import { createHash } from 'crypto';
+import { EncodeObject } from '@cosmjs/proto-signing';
+import {
+  BroadcastTxError,
+  calculateFee,
+  DeliverTxResponse,
+  GasPrice,
+  IndexedTx,
+  SignerData,
+  StdFee,
+  TimeoutError,
+} from '@cosmjs/stargate';
+import { TxRaw } from 'cosmjs-types/cosmos/tx/v1beta1/tx';
+import { MsgMultiSend, MsgSend } from 'cosmjs-types/cosmos/bank/v1beta1/tx';
+import {
+  BroadcastAttempt,
+  BroadcastHooks,
+  Coin,
+  DelegationConfig,
+  Input,
+  MultiSendTx,
+  Output,
+  Recipient,
+  SignedTx,
+  ZigchainConfig,
+} from './types';
 import { WalletService } from './wallet';
+import { getRecipientCoins, sumRecipientCoins } from './coins';
+import { getExplorerTxUrl } from './networks';
+import { findSendGrant, GrantMode, MSG_EXEC_TYPE_URL, MSG_MULTI_SEND_TYPE_URL, MSG_SEND_TYPE_URL } from './authz';
+import { consoleLogger, Logger } from './logger';
+import { ChainClient, ChainTiming, SigningChainClient } from './chain-backend';
+
+// How many times to look for earlier attempts once their sequence has been used, to allow for indexer lag
+const ATTEMPT_LOOKUP_ROUNDS = 3;
+
+/**
+ * Thrown when an earlier attempt may have been committed but cannot be found,
+ * so resending could pay recipients twice
+ */
+export class AmbiguousBroadcastError extends Error {
+  constructor(message: string, public readonly attempts: BroadcastAttempt[]) {
+    super(message);
+    this.name = 'AmbiguousBroadcastError';
+  }
+}
+
+/**
+ * Thrown when a transaction was included in a block but failed
+ */
+export class TransactionFailedError extends Error {
+  constructor(
+    public readonly transactionHash: string,
+    public readonly code: number,
+    public readonly rawLog: string
+  ) {
+    super(`Transaction ${transactionHash} failed with code ${code}: ${rawLog}`);
+    this.name = 'TransactionFailedError';
+  }
+}
+
+/**
+ * Reduce a signed transaction to what is needed to check it on chain later
+ */
+export function toBroadcastAttempt(signedTx: SignedTx): BroadcastAttempt {
+  return {
+    transactionHash: signedTx.transactionHash,
+    accountNumber: signedTx.accountNumber,
+    sequence: signedTx.sequence,
+  };
+}
+
+export type PreviousAttemptCheck =
+  | { status: 'committed'; tx: IndexedTx } // An attempt succeeded, do not resend
+  | { status: 'failed'; tx: IndexedTx } // The latest attempt was included but failed, resend with a new sequence
+  | { status: 'not-committed'; attempt: BroadcastAttempt }; // Sequence unused, resend with the same sequence
 
 export class MultiSendService {
   private walletService: WalletService;
   private networkConfig: ZigchainConfig;
+  private delegation: DelegationConfig;
+  private logger: Logger;
+  private grantMode: GrantMode | null = null;
 
-  constructor(walletService: WalletService, networkConfig: ZigchainConfig) {
+  constructor(
+    walletService: WalletService,
+    networkConfig: ZigchainConfig,
+    delegation: DelegationConfig = {},
+    logger: Logger = consoleLogger
+  ) {
     this.walletService = walletService;
     this.networkConfig = networkConfig;
+    this.delegation = delegation;
+    this.logger = logger;
   }
 
   /**
-   * Create a MultiSend transaction
+   * Address whose funds are sent: the authz granter when there is one, otherwise the wallet's own
    */
-  async createMultiSendTx(recipients: Recipient[]): Promise<MultiSendTx> {
-    const senderAddress = await this.walletService.getAddress();
-    
-    // Calculate total amount
-    const totalAmount = recipients.reduce(
-      (sum, recipient) => sum + BigInt(recipient.amount),
-      BigInt(0)
-    );
+  async getFundingAddress(): Promise<string> {
+    return this.delegation.granter || this.walletService.getAddress();
+  }
+
+  /**
+   * Whether the fees come out of the same balance as the amounts sent
+   */
+  fundingAccountPaysFees(): boolean {
+    return !this.delegation.granter && !this.delegation.feeGranter;
+  }
+
+  /**
+   * How long to wait on the chain the wallet sends to
+   */
+  get timing(): ChainTiming {
+    return this.walletService.backend.timing;
+  }
+
+  /**
+   * Explorer link to a transaction, when the network has an explorer
+   */
+  getExplorerUrl(transactionHash: string): string | undefined {
+    return getExplorerTxUrl(this.networkConfig, transactionHash);
+  }
+
+  /**
+   * Create a MultiSend transaction. The sender defaults to the funding address.
+   */
+  async createMultiSendTx(recipients: Recipient[], sender?: string): Promise<MultiSendTx> {
+    const senderAddress = sender || (await this.getFundingAddress());
     
-    // Create input (sender)
+    // Create input (sender) with the total of each denom
     const input: Input = {
       address: senderAddress,
-      coins: [
-        {
-          denom: this.networkConfig.denom,
-          amount: totalAmount.toString(),
-        },
-      ],
+      coins: sumRecipientCoins(recipients, this.networkConfig.denom),
     };
     
     // Create outputs (recipients)
     const outputs: Output[] = recipients.map((recipient) => ({
       address: recipient.address,
-      coins: [
-        {
-          denom: this.networkConfig.denom,
-          amount: recipient.amount,
-        },
-      ],
+      coins: getRecipientCoins(recipient, this.networkConfig.denom),
     }));
     
     return {
       inputs: [input],
       outputs,
+      // A MsgMultiSend carries no memo per output, so recipients with a memo get a MsgSend each
+      ...(recipients.some(recipient => recipient.memo) ? { perRecipientSends: true } : {}),
+    };
+  }
+
+  /**
+   * Build the MsgMultiSend message for a transaction
+   */
+  buildMultiSendMsg(multiSendTx: MultiSendTx): EncodeObject {
+    return {
+      typeUrl: '/cosmos.bank.v1beta1.MsgMultiSend',
+      value: {
+        inputs: multiSendTx.inputs,
+        outputs: multiSendTx.outputs,
+      },
     };
   }
 
   /**
-   * Execute MultiSend transaction
+   * One MsgSend per output of a transaction
    */
-  async executeMultiSend(recipients: Recipient[]): Promise<string> {
+  buildSendMsgs(multiSendTx: MultiSendTx): EncodeObject[] {
+    return multiSendTx.outputs.map(output => ({
+      typeUrl: MSG_SEND_TYPE_URL,
+      value: {
+        fromAddress: multiSendTx.inputs[0].address,
+        toAddress: output.address,
+        amount: output.coins,
+      },
+    }));
+  }
+
+  /**
+   * The messages that send a MultiSend transaction from the wallet: a MsgMultiSend, or one MsgSend per
+   * recipient for recipients with a memo. With an authz granter they are wrapped in MsgExec, as MsgSends
+   * when the grant only allows MsgSend.
+   */
+  private async buildMessages(multiSendTx: MultiSendTx): Promise<EncodeObject[]> {
+    if (!this.delegation.granter) {
+      return multiSendTx.perRecipientSends ? this.buildSendMsgs(multiSendTx) : [this.buildMultiSendMsg(multiSendTx)];
+    }
+    
+    const grantee = await this.walletService.getAddress();
+    if (!this.grantMode) {
+      const grant = await findSendGrant(this.walletService.backend, this.delegation.granter, grantee);
+      if (!grant) {
+        throw new Error(`${this.delegation.granter} has not granted ${grantee} permission to send its funds`);
+      }
+      this.grantMode = grant.mode;
+    }
+    if (multiSendTx.perRecipientSends && this.grantMode === 'multi-send') {
+      throw new Error(`Recipients with a memo are sent with MsgSend, but ${this.delegation.granter} only granted ${grantee} MsgMultiSend`);
+    }
+    
+    const msgs = this.grantMode === 'multi-send'
+      ? [{
+          typeUrl: MSG_MULTI_SEND_TYPE_URL,
+          value: MsgMultiSend.encode(MsgMultiSend.fromPartial({ inputs: multiSendTx.inputs, outputs: multiSendTx.outputs })).finish(),
+        }]
+      : multiSendTx.outputs.map(output => ({
+          typeUrl: MSG_SEND_TYPE_URL,
+          value: MsgSend.encode(MsgSend.fromPartial({
+            fromAddress: multiSendTx.inputs[0].address,
+            toAddress: output.address,
+            amount: output.coins,
+          })).finish(),
+        }));
+    
+    return [{ typeUrl: MSG_EXEC_TYPE_URL, value: { grantee, msgs } }];
+  }
+
+  /**
+   * Estimate the fee for sending to these recipients by simulating the transaction
+   */
+  async estimateFee(recipients: Recipient[], memo: string = ''): Promise<StdFee> {
+    const signingClient = await this.walletService.createSigningClient();
+    const senderAddress = await this.walletService.getAddress();
+    const multiSendTx = await this.createMultiSendTx(recipients);
+    
+    return this.simulateFee(signingClient, senderAddress, multiSendTx, memo);
+  }
+
+  /**
+   * Simulate a MultiSend transaction and derive its fee from the gas price.
+   * Throws if the fee is above the configured ceiling.
+   */
+  async simulateFee(
+    client: SigningChainClient,
+    sender: string,
+    multiSendTx: MultiSendTx,
+    memo: string = ''
+  ): Promise<StdFee> {
+    const gasEstimate = await client.simulate(sender, await this.buildMessages(multiSendTx), memo || undefined);
+    const fee = this.feeForGas(gasEstimate);
+    
+    return this.delegation.feeGranter ? { ...fee, granter: this.delegation.feeGranter } : fee;
+  }
+
+  /**
+   * Simulate a MultiSend transaction for an account whose key is not available here,
+   * using the public key and sequence the chain has on record for it. The messages are those
+   * the transaction is sent with, so recipients with a memo are simulated as MsgSends.
+   */
+  async simulateFeeForAccount(sender: string, multiSendTx: MultiSendTx, sequence: number): Promise<StdFee> {
+    const client = await this.connect();
+    const account = await client.getAccount(sender);
+    
+    if (!account || !account.pubkey) {
+      throw new Error(
+        `Account ${sender} has no public key on chain yet, so its transactions cannot be simulated. Send one transaction from it first.`
+      );
+    }
+    
+    const gasUsed = await this.walletService.backend.simulateForAccount(account.pubkey, sequence, await this.buildMessages(multiSendTx), undefined);
+    return this.feeForGas(gasUsed);
+  }
+
+  /**
+   * Turn simulated gas into a fee using the gas multiplier and gas price
+   */
+  private feeForGas(gasEstimate: number): StdFee {
+    return this.feeForGasLimit(Math.ceil(gasEstimate * this.networkConfig.gasMultiplier));
+  }
+
+  /**
+   * Fee for a fixed gas limit at the configured gas price.
+   * Throws if the fee is above the configured ceiling.
+   */
+  feeForGasLimit(gasLimit: number): StdFee {
+    const fee = calculateFee(gasLimit, GasPrice.fromString(this.networkConfig.gasPrice));
+    
+    const feeAmount = fee.amount.find(coin => coin.denom === this.networkConfig.feeDenom);
+    if (
+      this.networkConfig.maxFee !== undefined &&
+      feeAmount &&
+      BigInt(feeAmount.amount) > BigInt(this.networkConfig.maxFee)
+    ) {
+      throw new Error(
+        `Estimated fee ${feeAmount.amount} ${feeAmount.denom} (gas ${gasLimit}) exceeds the maximum fee of ${this.networkConfig.maxFee} ${this.networkConfig.feeDenom}`
+      );
+    }
+    
+    return fee;
+  }
+
+  /**
+   * Work out what happened to earlier attempts at a batch.
+   * Throws AmbiguousBroadcastError when it cannot be proven that none of them was committed.
+   */
+  async checkPreviousAttempts(attempts: BroadcastAttempt[]): Promise<PreviousAttemptCheck> {
+    if (attempts.length === 0) {
+      throw new Error('No previous attempts to check');
+    }
+    
+    const client = await this.walletService.createSigningClient();
+    const senderAddress = await this.walletService.getAddress();
+    const latest = attempts.reduce((a, b) => (b.sequence >= a.sequence ? b : a));
+    
+    for (let round = 1; round <= ATTEMPT_LOOKUP_ROUNDS; round++) {
+      let latestTx: IndexedTx | null = null;
+      
+      for (const attempt of attempts) {
+        const tx = await client.getTx(attempt.transactionHash);
+        if (tx && tx.code === 0) {
+          return { status: 'committed', tx };
+        }
+        if (tx && attempt === latest) {
+          latestTx = tx;
+        }
+      }
+      
+      if (latestTx) {
+        return { status: 'failed', tx: latestTx };
+      }
+      
+      // While the account has not moved past the latest attempt's sequence, none of the attempts can have been
+      // included, and any transaction signed with that sequence can only be included instead of them
+      const { sequence } = await client.getSequence(senderAddress);
+      if (sequence <= latest.sequence) {
+        return { status: 'not-committed', attempt: latest };
+      }
+      
+      if (round < ATTEMPT_LOOKUP_ROUNDS) {
+        this.logger.info(`Sequence ${latest.sequence} has been used but no attempt was found yet, checking again...`);
+        await new Promise(resolve => setTimeout(resolve, this.timing.pollIntervalMs));
+      }
+    }
+    
+    throw new AmbiguousBroadcastError(
+      `Account sequence moved past ${latest.sequence} but none of the earlier transactions (${attempts
+        .map(attempt => attempt.transactionHash)
+        .join(', ')}) could be found. Check them in the explorer before resending.`,
+      attempts
+    );
+  }
+
+  /**
+   * Execute MultiSend transaction. The fee is simulated unless one is given.
+   * When earlier attempts are given they are checked on chain first: a committed attempt is
+   * returned instead of resending, and an unconfirmed one is replaced using the same sequence.
+   */
+  async executeMultiSend(
+    recipients: Recipient[],
+    fee?: StdFee,
+    hooks: BroadcastHooks = {},
+    previousAttempts: BroadcastAttempt[] = [],
+    memo: string = ''
+  ): Promise<DeliverTxResponse> {
     try {
+      let signerData: SignerData | undefined;
+      
+      if (previousAttempts.length > 0) {
+        const check = await this.checkPreviousAttempts(previousAttempts);
+        
+        if (check.status === 'committed') {
+          this.logger.info(`Earlier attempt ${check.tx.hash} was committed at height ${check.tx.height}, not resending`);
+          return this.toDeliverTxResponse(check.tx);
+        }
+        
+        if (check.status === 'not-committed') {
+          this.logger.info(`Earlier attempts were not committed, re-signing with sequence ${check.attempt.sequence}`);
+          signerData = {
+            accountNumber: check.attempt.accountNumber,
+            sequence: check.attempt.sequence,
+            chainId: this.networkConfig.chainId,
+          };
+        }
+      }
+      
       const signingClient = await this.walletService.createSigningClient();
       const senderAddress = await this.walletService.getAddress();
       
-      // Check balance before sending
-      const balance = await this.walletService.getBalance();
-      const totalAmount = recipients.reduce(
-        (sum, recipient) => sum + BigInt(recipient.amount),
-        BigInt(0)
-      );
-      
-      if (BigInt(balance) < totalAmount) {
-        throw new Error(`Insufficient balance. Required: ${totalAmount}, Available: ${balance}`);
+      // Check the balance of every denom before sending
+      const totals = sumRecipientCoins(recipients, this.networkConfig.denom);
+      const balances = await this.getBalances(totals.map(total => total.denom));
+      for (const total of totals) {
+        const balance = balances.get(total.denom)!;
+        
+        if (BigInt(balance) < BigInt(total.amount)) {
+          throw new Error(`Insufficient ${total.denom} balance. Required: ${total.amount}, Available: ${balance}`);
+        }
       }
       
       // Create MultiSend message
       const multiSendTx = await this.createMultiSendTx(recipients);
       
       // Execute transaction
-      const result = await this.sendMultiSendTx(signingClient, senderAddress, multiSendTx);
+      const result = await this.sendMultiSendTx(
+        signingClient,
+        senderAddress,
+        multiSendTx,
+        fee || (await this.simulateFee(signingClient, senderAddress, multiSendTx, memo)),
+        hooks,
+        signerData,
+        memo
+      );
       
-      return result.transactionHash;
+      return result;
     } catch (error) {
-      console.error('Error executing MultiSend transaction:', error);
+      this.logger.error('Error executing MultiSend transaction:', error);
       throw error;
     }
   }
 
   /**
-   * Send MultiSend transaction to the blockchain
+   * Sign a MultiSend transaction without broadcasting it.
+   * The account number and sequence are queried unless signer data is given.
    */
-  async sendMultiSendTx(
-    client: SigningStargateClient,
+  async signMultiSendTx(
+    client: SigningChainClient,
     sender: string,
-    multiSendTx: MultiSendTx
-  ) {
-    // Create the MultiSend message
-    const msg = {
-      typeUrl: '/cosmos.bank.v1beta1.MsgMultiSend',
-      value: {
-        inputs: multiSendTx.inputs,
-        outputs: multiSendTx.outputs,
-      },
+    multiSendTx: MultiSendTx,
+    fee: StdFee,
+    signerData?: SignerData,
+    memo: string = ''
+  ): Promise<SignedTx> {
+    return this.signMessages(client, sender, await this.buildMessages(multiSendTx), fee, signerData, memo);
+  }
+
+  /**
+   * Sign any messages into a transaction without broadcasting it.
+   * The account number and sequence are queried unless signer data is given.
+   */
+  private async signMessages(
+    client: SigningChainClient,
+    sender: string,
+    messages: EncodeObject[],
+    fee: StdFee,
+    signerData?: SignerData,
+    memo: string = ''
+  ): Promise<SignedTx> {
+    const data = signerData || {
+      ...(await client.getSequence(sender)),
+      chainId: await client.getChainId(),
+    };
+    
+    const txRaw = await client.sign(sender, messages, fee, memo, data);
+    const txBytes = TxRaw.encode(txRaw).finish();
+    
+    return {
+      transactionHash: createHash('sha256').update(txBytes).digest('hex').toUpperCase(),
+      txBytes,
+      accountNumber: data.accountNumber,
+      sequence: data.sequence,
+    };
+  }
+
+  /**
+   * Sign a MultiSend transaction for these recipients with explicit signer data, without broadcasting it
+   */
+  async signMultiSend(
+    client: SigningChainClient,
+    recipients: Recipient[],
+    fee: StdFee,
+    signerData: SignerData,
+    memo: string = ''
+  ): Promise<SignedTx> {
+    const senderAddress = await this.walletService.getAddress();
+    const multiSendTx = await this.createMultiSendTx(recipients);
+    
+    return this.signMultiSendTx(client, senderAddress, multiSendTx, fee, signerData, memo);
+  }
+
+  /**
+   * Connect a client for queries and broadcasts, sharing the backend's connections
+   */
+  connect(): Promise<ChainClient> {
+    return this.walletService.backend.connect();
+  }
+
+  /**
+   * Connect a signing client for the wallet, to be reused for many transactions
+   */
+  createSigningClient(): Promise<SigningChainClient> {
+    return this.walletService.createSigningClient();
+  }
+
+  /**
+   * The wallet's account number and the sequence its next transaction must use
+   */
+  async getSignerData(client: ChainClient): Promise<SignerData> {
+    const senderAddress = await this.walletService.getAddress();
+    
+    return {
+      ...(await client.getSequence(senderAddress)),
+      chainId: this.networkConfig.chainId,
     };
+  }
+
+  /**
+   * The funding address's balance of each denom, and of the fee denom, in base units
+   */
+  async getBalances(denoms: string[]): Promise<Map<string, bigint>> {
+    const client = await this.walletService.backend.connect();
+    const fundingAddress = await this.getFundingAddress();
+    const balances = new Map<string, bigint>();
+    
+    for (const denom of new Set([...denoms, this.networkConfig.feeDenom])) {
+      balances.set(denom, BigInt((await client.getBalance(fundingAddress, denom)).amount));
+    }
+    
+    return balances;
+  }
+
+  /**
+   * Balances of an address that can be spent now, leaving out vesting and otherwise locked coins
+   */
+  getSpendableBalances(address: string): Promise<Coin[]> {
+    return this.walletService.backend.getSpendableBalances(address);
+  }
+
+  /**
+   * Longest memo the chain accepts
+   */
+  getMaxMemoCharacters(): Promise<number> {
+    return this.walletService.backend.getMaxMemoCharacters();
+  }
+
+  /**
+   * Broadcast a signed transaction in sync mode: returns once the node has accepted it into its mempool,
+   * without waiting for a block. Throws BroadcastTxError if CheckTx refused it.
+   */
+  async broadcastSync(
+    client: ChainClient,
+    signedTx: SignedTx,
+    hooks: BroadcastHooks = {}
+  ): Promise<void> {
+    try {
+      await client.broadcastTxSync(signedTx.txBytes);
+    } catch (error) {
+      // Refused by CheckTx, unless the node already has it in its mempool cache
+      if (error instanceof BroadcastTxError && !(error.codespace === 'sdk' && error.code === 19)) {
+        hooks.onRejected?.(signedTx);
+      }
+      throw error;
+    }
+    hooks.onBroadcast?.(signedTx);
+  }
+
+  /**
+   * Broadcast a signed transaction and wait until it is included in a block.
+   * Throws if the transaction was included but failed.
+   */
+  async broadcastSignedTx(
+    client: ChainClient,
+    signedTx: SignedTx,
+    hooks: BroadcastHooks = {}
+  ): Promise<DeliverTxResponse> {
+    await this.broadcastSync(client, signedTx, hooks);
+    
+    const { confirmationTimeoutMs, pollIntervalMs } = this.timing;
+    const deadline = Date.now() + confirmationTimeoutMs;
+    while (Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, pollIntervalMs));
+      
+      const tx = await client.getTx(signedTx.transactionHash);
+      if (tx) {
+        if (tx.code !== 0) {
+          throw new TransactionFailedError(tx.hash, tx.code, tx.rawLog);
+        }
+        
+        return this.toDeliverTxResponse(tx);
+      }
+    }
+    
+    throw new TimeoutError(
+      `Transaction ${signedTx.transactionHash} was broadcast but not found on chain after ${confirmationTimeoutMs / 1000} seconds`,
+      signedTx.transactionHash
+    );
+  }
 
-    // Set gas price and fee
-    const fee = {
-      amount: coins(10000, this.networkConfig.denom),
-      gas: '7500000', // Further increased gas limit for large batches with higher amounts
+  /**
+   * Convert an indexed transaction to the response shape returned by a broadcast
+   */
+  private toDeliverTxResponse(tx: IndexedTx): DeliverTxResponse {
+    return {
+      code: tx.code,
+      height: tx.height,
+      txIndex: tx.txIndex,
+      events: tx.events,
+      rawLog: tx.rawLog,
+      transactionHash: tx.hash,
+      msgResponses: tx.msgResponses,
+      gasUsed: tx.gasUsed,
+      gasWanted: tx.gasWanted,
     };
+  }
+
+  /**
+   * Look up a transaction by hash
+   */
+  async findTransaction(hash: string): Promise<IndexedTx | null> {
+    const client = await this.walletService.createSigningClient();
+    return client.getTx(hash);
+  }
 
+  /**
+   * Send the wallet's whole balance to an address, keeping back the fee for doing so.
+   * Returns null if there is nothing left to send once the fee is paid.
+   */
+  async sweep(toAddress: string): Promise<DeliverTxResponse | null> {
+    const signingClient = await this.walletService.createSigningClient();
+    const senderAddress = await this.walletService.getAddress();
+    const balances = await signingClient.getAllBalances(senderAddress);
+    const feeBalance = balances.find(coin => coin.denom === this.networkConfig.feeDenom);
+    
+    if (!feeBalance) {
+      return null;
+    }
+    
+    const buildMsg = (amount: Coin[]): EncodeObject => ({
+      typeUrl: '/cosmos.bank.v1beta1.MsgSend',
+      value: { fromAddress: senderAddress, toAddress, amount },
+    });
+    
+    // The fee comes out of the fee denom balance, so simulate with everything and send what the fee leaves
+    const fee = this.feeForGas(await signingClient.simulate(senderAddress, [buildMsg([...balances])], undefined));
+    const feeAmount = BigInt(fee.amount.find(coin => coin.denom === this.networkConfig.feeDenom)?.amount || '0');
+    const amount = balances
+      .map(coin => coin.denom === this.networkConfig.feeDenom
+        ? { denom: coin.denom, amount: (BigInt(coin.amount) - feeAmount).toString() }
+        : coin)
+      .filter(coin => BigInt(coin.amount) > 0n);
+    
+    if (amount.length === 0 || BigInt(feeBalance.amount) < feeAmount) {
+      return null;
+    }
+    
+    const signedTx = await this.signMessages(signingClient, senderAddress, [buildMsg(amount)], fee);
+    return this.broadcastSignedTx(signingClient, signedTx);
+  }
+
+  /**
+   * Send MultiSend transaction to the blockchain
+   */
+  async sendMultiSendTx(
+    client: SigningChainClient,
+    sender: string,
+    multiSendTx: MultiSendTx,
+    fee: StdFee,
+    hooks: BroadcastHooks = {},
+    signerData?: SignerData,
+    memo: string = ''
+  ): Promise<DeliverTxResponse> {
+    const signedTx = await this.signMultiSendTx(client, sender, multiSendTx, fee, signerData, memo);
+    hooks.onSigned?.(signedTx);
+    
     // Send the transaction
-    return client.signAndBroadcast(sender, [msg], fee);
+    return this.broadcastSignedTx(client, signedTx, hooks);
   }
 }
@@ -0,0 +1,413 @@
+import fs from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import {
+  AminoTypes,
+  createBankAminoConverters,
+  makeMultisignedTxBytes,
+  SigningStargateClient,
+  StdFee,
+} from '@cosmjs/stargate';
+import {
+  createMultisigThresholdPubkey,
+  encodeSecp256k1Pubkey,
+  isMultisigThresholdPubkey,
+  makeSignDoc,
+  MultisigThresholdPubkey,
+  pubkeyToAddress,
+  StdSignDoc,
+} from '@cosmjs/amino';
+import { fromBase64, toBase64 } from '@cosmjs/encoding';
+import { MultisigConfig, MultiSendTx, Recipient, ZigchainConfig } from './types';
+import { MultiSendService } from './multisend';
+import { ChainClient } from './chain-backend';
+import { WalletService } from './wallet';
+import { formatCoins } from './coins';
+
+// A batch prepared for the multisig members to sign
+export interface MultisigBatchFile {
+  batchNumber: number;
+  multisigAddress: string;
+  multisigPubkey: MultisigThresholdPubkey;
+  chainId: string;
+  accountNumber: number;
+  sequence: number;
+  recipientCount: number;
+  multiSendTx: MultiSendTx;
+  fee: StdFee;
+  memo: string;
+  signDoc: StdSignDoc; // The amino sign doc every member signs
+}
+
+// A member's partial signature
+export interface MultisigSignatureFile {
+  signerAddress: string;
+  signature: string; // base64
+  bodyBytes: string; // base64
+  signedAt: string;
+}
+
+// Written once the combined transaction is on chain
+export interface MultisigResultFile {
+  transactionHash: string;
+  height: number;
+  broadcastAt: string;
+}
+
+export interface MultisigBatchStatus {
+  batchNumber: number;
+  sequence: number;
+  threshold: number;
+  signedBy: string[];
+  missing: string[];
+  state: 'awaiting-signatures' | 'ready' | 'broadcast';
+  transactionHash?: string;
+}
+
+/**
+ * MultiSend batches paid from a multisig treasury: prepare amino sign docs,
+ * collect members' signatures, then combine and broadcast once the threshold is met
+ */
+export class MultisigService {
+  private hashesFilePath: string;
+  private aminoTypes = new AminoTypes(createBankAminoConverters());
+
+  constructor(
+    private multiSendService: MultiSendService,
+    private networkConfig: ZigchainConfig,
+    private multisigConfig: MultisigConfig,
+    private prefix: string = 'zig'
+  ) {
+    this.hashesFilePath = path.join(process.cwd(), 'transaction-hashes.txt');
+  }
+
+  /**
+   * Get the multisig public key from the chain, or build it from the configured members and threshold
+   */
+  async getMultisigPubkey(client: ChainClient): Promise<MultisigThresholdPubkey> {
+    const address = this.getMultisigAddress();
+    const account = await client.getAccount(address);
+
+    if (account && account.pubkey) {
+      if (!isMultisigThresholdPubkey(account.pubkey)) {
+        throw new Error(`Account ${address} is not a multisig account`);
+      }
+      return account.pubkey;
+    }
+
+    const { threshold, pubkeys } = this.multisigConfig;
+    if (!threshold || pubkeys.length === 0) {
+      throw new Error(
+        `The public key of ${address} is not on chain yet. Set MULTISIG_PUBKEYS and MULTISIG_THRESHOLD to describe it.`
+      );
+    }
+
+    const multisigPubkey = createMultisigThresholdPubkey(
+      pubkeys.map(key => encodeSecp256k1Pubkey(fromBase64(key))),
+      threshold,
+      true
+    );
+    const derivedAddress = pubkeyToAddress(multisigPubkey, this.prefix);
+    if (derivedAddress !== address) {
+      throw new Error(`MULTISIG_PUBKEYS and MULTISIG_THRESHOLD describe ${derivedAddress}, not ${address}`);
+    }
+
+    return multisigPubkey;
+  }
+
+  /**
+   * Build one batch per directory with its sign doc. Sequences are consecutive, so batches must be broadcast in order.
+   */
+  async prepare(batches: Recipient[][], outputDir: string, gasLimit?: number): Promise<MultisigBatchFile[]> {
+    if (batches.some(batch => batch.some(recipient => recipient.memo))) {
+      throw new Error('The multisig treasury only sends MsgMultiSend batches, so recipients with a memo have to be sent with the send command');
+    }
+    const client = await this.multiSendService.connect();
+    const multisigAddress = this.getMultisigAddress();
+    const multisigPubkey = await this.getMultisigPubkey(client);
+    const chainId = await client.getChainId();
+    const { accountNumber, sequence } = await client.getSequence(multisigAddress);
+    const prepared: MultisigBatchFile[] = [];
+
+    console.log(`Preparing ${batches.length} batches for multisig ${multisigAddress} (${multisigPubkey.value.threshold} of ${multisigPubkey.value.pubkeys.length}, starting sequence ${sequence})`);
+
+    for (let i = 0; i < batches.length; i++) {
+      const multiSendTx = await this.multiSendService.createMultiSendTx(batches[i], multisigAddress);
+      const fee = await this.estimateFee(multisigAddress, multiSendTx, sequence, gasLimit);
+      const msg = this.multiSendService.buildMultiSendMsg(multiSendTx);
+
+      const batch: MultisigBatchFile = {
+        batchNumber: i + 1,
+        multisigAddress,
+        multisigPubkey,
+        chainId,
+        accountNumber,
+        sequence: sequence + i,
+        recipientCount: batches[i].length,
+        multiSendTx,
+        fee,
+        memo: '',
+        signDoc: makeSignDoc([this.aminoTypes.toAmino(msg)], fee, chainId, '', accountNumber, sequence + i)
+      };
+
+      const batchDir = this.batchDir(outputDir, batch.batchNumber);
+      fs.mkdirSync(path.join(batchDir, 'signatures'), { recursive: true });
+      fs.writeFileSync(path.join(batchDir, 'sign-doc.json'), JSON.stringify(batch, null, 2), 'utf8');
+      prepared.push(batch);
+
+      console.log(`Batch #${batch.batchNumber}: sequence ${batch.sequence}, fee ${formatCoins(fee.amount, this.networkConfig.denomUnits)} -> ${batchDir}`);
+    }
+
+    return prepared;
+  }
+
+  /**
+   * Sign every prepared batch with a member's key (works offline)
+   */
+  async sign(walletService: WalletService, dir: string): Promise<number> {
+    const wallet = await walletService.createAminoWallet();
+    const [account] = await wallet.getAccounts();
+    const client = await SigningStargateClient.offline(wallet, { aminoTypes: this.aminoTypes });
+    let signedCount = 0;
+
+    for (const batch of this.loadBatches(dir)) {
+      const members = this.getMemberAddresses(batch.multisigPubkey);
+      if (!members.includes(account.address)) {
+        throw new Error(`${account.address} is not a member of multisig ${batch.multisigAddress}`);
+      }
+
+      // Never sign anything other than what the sign doc shows
+      const msg = this.multiSendService.buildMultiSendMsg(batch.multiSendTx);
+      const expectedSignDoc = makeSignDoc(
+        [this.aminoTypes.toAmino(msg)], batch.fee, batch.chainId, batch.memo, batch.accountNumber, batch.sequence
+      );
+      if (JSON.stringify(expectedSignDoc) !== JSON.stringify(batch.signDoc)) {
+        throw new Error(`Batch #${batch.batchNumber}: the sign doc does not match the batch's transaction`);
+      }
+
+      const signaturePath = this.signaturePath(dir, batch.batchNumber, account.address);
+      if (fs.existsSync(signaturePath)) {
+        console.log(`Batch #${batch.batchNumber} already signed by ${account.address}, skipping`);
+        continue;
+      }
+
+      const txRaw = await client.sign(account.address, [msg], batch.fee, batch.memo, {
+        accountNumber: batch.accountNumber,
+        sequence: batch.sequence,
+        chainId: batch.chainId
+      });
+
+      const signature: MultisigSignatureFile = {
+        signerAddress: account.address,
+        signature: toBase64(txRaw.signatures[0]),
+        bodyBytes: toBase64(txRaw.bodyBytes),
+        signedAt: new Date().toISOString()
+      };
+      fs.writeFileSync(signaturePath, JSON.stringify(signature, null, 2), 'utf8');
+      signedCount++;
+
+      console.log(`Signed Batch #${batch.batchNumber} (sequence ${batch.sequence}) as ${account.address}`);
+    }
+
+    return signedCount;
+  }
+
+  /**
+   * Which members have signed each batch and which signatures are still missing
+   */
+  getStatus(dir: string): MultisigBatchStatus[] {
+    return this.loadBatches(dir).map(batch => {
+      const members = this.getMemberAddresses(batch.multisigPubkey);
+      const signedBy = Array.from(this.loadSignatures(dir, batch.batchNumber).keys());
+      const threshold = parseInt(batch.multisigPubkey.value.threshold, 10);
+      const result = this.loadResult(dir, batch.batchNumber);
+
+      return {
+        batchNumber: batch.batchNumber,
+        sequence: batch.sequence,
+        threshold,
+        signedBy,
+        missing: members.filter(member => !signedBy.includes(member)),
+        state: result ? 'broadcast' : signedBy.length >= threshold ? 'ready' : 'awaiting-signatures',
+        transactionHash: result?.transactionHash
+      };
+    });
+  }
+
+  /**
+   * Print the signing progress of every batch
+   */
+  printStatus(dir: string): void {
+    for (const status of this.getStatus(dir)) {
+      console.log(`Batch #${status.batchNumber} (sequence ${status.sequence}): ${status.state}, ${status.signedBy.length}/${status.threshold} signatures`);
+      if (status.transactionHash) {
+        console.log(`   Hash: ${status.transactionHash}`);
+      } else if (status.signedBy.length < status.threshold) {
+        console.log(`   Missing: ${status.missing.join(', ')}`);
+      }
+    }
+  }
+
+  /**
+   * Combine the signatures of each batch that has met the threshold and broadcast them in order.
+   * Stops at the first batch that cannot be sent, as every later batch depends on its sequence.
+   */
+  async broadcast(dir: string): Promise<{ success: number; pending: number }> {
+    const client = await this.multiSendService.connect();
+    const batches = this.loadBatches(dir);
+    let success = 0;
+
+    for (const batch of batches) {
+      if (this.loadResult(dir, batch.batchNumber)) {
+        success++;
+        continue;
+      }
+
+      const signatures = this.loadSignatures(dir, batch.batchNumber);
+      const threshold = parseInt(batch.multisigPubkey.value.threshold, 10);
+      if (signatures.size < threshold) {
+        console.log(`Batch #${batch.batchNumber} has ${signatures.size}/${threshold} signatures, stopping here`);
+        break;
+      }
+
+      const bodyBytes = new Set(Array.from(signatures.values()).map(signature => signature.bodyBytes));
+      if (bodyBytes.size !== 1) {
+        throw new Error(`Batch #${batch.batchNumber}: members signed different transaction bodies`);
+      }
+
+      // Any threshold-sized subset is valid; keep members in multisig order
+      const members = this.getMemberAddresses(batch.multisigPubkey);
+      const chosen = new Map<string, Uint8Array>(
+        members
+          .filter(member => signatures.has(member))
+          .slice(0, threshold)
+          .map(member => [member, fromBase64(signatures.get(member)!.signature)])
+      );
+
+      const txBytes = makeMultisignedTxBytes(
+        batch.multisigPubkey,
+        batch.sequence,
+        batch.fee,
+        fromBase64(Array.from(bodyBytes)[0]),
+        chosen
+      );
+      const transactionHash = createHash('sha256').update(txBytes).digest('hex').toUpperCase();
+
+      console.log(`\n--- Broadcasting Batch #${batch.batchNumber} (${batch.recipientCount} recipients, sequence ${batch.sequence}) ---`);
+
+      try {
+        const existing = await client.getTx(transactionHash);
+        const result = existing && existing.code === 0
+          ? { transactionHash: existing.hash, height: existing.height }
+          : await this.multiSendService.broadcastSignedTx(client, {
+              transactionHash,
+              txBytes,
+              accountNumber: batch.accountNumber,
+              sequence: batch.sequence
+            });
+
+        const resultFile: MultisigResultFile = {
+          transactionHash: result.transactionHash,
+          height: result.height,
+          broadcastAt: new Date().toISOString()
+        };
+        fs.writeFileSync(
+          path.join(this.batchDir(dir, batch.batchNumber), 'result.json'),
+          JSON.stringify(resultFile, null, 2),
+          'utf8'
+        );
+        fs.appendFileSync(
+          this.hashesFilePath,
+          `Batch #${batch.batchNumber} | ${batch.recipientCount} recipients | Hash: ${result.transactionHash} | Time: ${resultFile.broadcastAt} (MULTISIG)\n`,
+          'utf8'
+        );
+
+        console.log(`Batch #${batch.batchNumber} transaction successful at height ${result.height}`);
+        console.log(`Transaction hash: ${result.transactionHash}`);
+        success++;
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        console.error(`Error broadcasting Batch #${batch.batchNumber}:`, errorMessage);
+        fs.appendFileSync(
+          this.hashesFilePath,
+          `Batch #${batch.batchNumber} | ${batch.recipientCount} recipients | ERROR: ${errorMessage} | Time: ${new Date().toISOString()} (MULTISIG)\n`,
+          'utf8'
+        );
+        break;
+      }
+    }
+
+    return { success, pending: batches.length - success };
+  }
+
+  /**
+   * Use the given gas limit, or simulate the batch when the multisig public key is on chain
+   */
+  private async estimateFee(
+    multisigAddress: string,
+    multiSendTx: MultiSendTx,
+    sequence: number,
+    gasLimit?: number
+  ): Promise<StdFee> {
+    if (gasLimit) {
+      return this.multiSendService.feeForGasLimit(gasLimit);
+    }
+
+    try {
+      return await this.multiSendService.simulateFeeForAccount(multisigAddress, multiSendTx, sequence);
+    } catch (error) {
+      throw new Error(
+        `Could not simulate the multisig batch (${error instanceof Error ? error.message : error}). Pass --gas-limit=<gas> instead.`
+      );
+    }
+  }
+
+  private getMultisigAddress(): string {
+    if (!this.multisigConfig.address) {
+      throw new Error('MULTISIG_ADDRESS is required for multisig batches');
+    }
+    return this.multisigConfig.address;
+  }
+
+  private getMemberAddresses(multisigPubkey: MultisigThresholdPubkey): string[] {
+    return multisigPubkey.value.pubkeys.map(pubkey => pubkeyToAddress(pubkey, this.prefix));
+  }
+
+  private loadBatches(dir: string): MultisigBatchFile[] {
+    if (!fs.existsSync(dir)) {
+      throw new Error(`Multisig directory not found: ${dir}`);
+    }
+
+    return fs.readdirSync(dir)
+      .filter(name => /^batch-\d+$/.test(name))
+      .sort()
+      .map(name => JSON.parse(fs.readFileSync(path.join(dir, name, 'sign-doc.json'), 'utf8')) as MultisigBatchFile);
+  }
+
+  private loadSignatures(dir: string, batchNumber: number): Map<string, MultisigSignatureFile> {
+    const signaturesDir = path.join(this.batchDir(dir, batchNumber), 'signatures');
+    const signatures = new Map<string, MultisigSignatureFile>();
+
+    if (fs.existsSync(signaturesDir)) {
+      for (const name of fs.readdirSync(signaturesDir).filter(entry => entry.endsWith('.json'))) {
+        const signature = JSON.parse(fs.readFileSync(path.join(signaturesDir, name), 'utf8')) as MultisigSignatureFile;
+        signatures.set(signature.signerAddress, signature);
+      }
+    }
+
+    return signatures;
+  }
+
+  private loadResult(dir: string, batchNumber: number): MultisigResultFile | null {
+    const resultPath = path.join(this.batchDir(dir, batchNumber), 'result.json');
+    return fs.existsSync(resultPath) ? JSON.parse(fs.readFileSync(resultPath, 'utf8')) : null;
+  }
+
+  private batchDir(dir: string, batchNumber: number): string {
+    return path.join(dir, `batch-${String(batchNumber).padStart(4, '0')}`);
+  }
+
+  private signaturePath(dir: string, batchNumber: number, signerAddress: string): string {
+    return path.join(this.batchDir(dir, batchNumber), 'signatures', `${signerAddress}.json`);
+  }
+}
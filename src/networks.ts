@@ -0,0 +1,76 @@
+import fs from 'fs';
+import { DenomUnit, ZigchainConfig } from './types';
+import { ChainBackend, createRpcBackend, RpcBackend } from './chain-backend';
+
+export const DEFAULT_NETWORK = 'testnet';
+
+// A named network in networks.json
+export interface NetworkProfile {
+  rpcUrls: string[]; // In order of preference, failing over to the next
+  chainId: string;
+  prefix: string; // Bech32 address prefix
+  denom: string;
+  feeDenom?: string; // Defaults to denom
+  gasPrice: string;
+  explorerTxUrl?: string; // Link to a transaction, {hash} is replaced with its hash
+  denomUnits?: Record<string, DenomUnit>;
+}
+
+/**
+ * Thrown when the node reports a different chain ID from the one configured for the network
+ */
+export class ChainIdMismatchError extends Error {
+  constructor(public readonly expected: string, public readonly actual: string, rpcUrl: string) {
+    super(`The node at ${rpcUrl} is on chain "${actual}", but the network is configured for "${expected}"`);
+    this.name = 'ChainIdMismatchError';
+  }
+}
+
+/**
+ * Read the named network from the profiles file
+ */
+export function getNetworkProfile(filePath: string, name: string): NetworkProfile {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Network profiles file not found: ${filePath}`);
+  }
+
+  const profiles = JSON.parse(fs.readFileSync(filePath, 'utf8')) as Record<string, NetworkProfile>;
+  const profile = profiles[name];
+  if (!profile) {
+    throw new Error(`Unknown network "${name}", ${filePath} has: ${Object.keys(profiles).join(', ')}`);
+  }
+
+  const missing = [
+    ...(Array.isArray(profile.rpcUrls) && profile.rpcUrls.length > 0 ? [] : ['rpcUrls']),
+    ...(['chainId', 'prefix', 'denom', 'gasPrice'] as const).filter(field => !profile[field])
+  ];
+  if (missing.length > 0) {
+    throw new Error(`Network "${name}" in ${filePath} is missing ${missing.join(', ')}`);
+  }
+
+  return profile;
+}
+
+/**
+ * Explorer link to a transaction, when the network has an explorer
+ */
+export function getExplorerTxUrl(networkConfig: ZigchainConfig, transactionHash: string): string | undefined {
+  return networkConfig.explorerTxUrl?.replace('{hash}', transactionHash);
+}
+
+/**
+ * Refuse to go on when the node is on another chain than the network is configured for
+ */
+export async function assertChainId(
+  networkConfig: ZigchainConfig,
+  backend: ChainBackend = createRpcBackend(networkConfig)
+): Promise<void> {
+  const client = await backend.connect();
+  const chainId = await client.getChainId();
+  client.disconnect();
+
+  if (chainId !== networkConfig.chainId) {
+    const rpcUrl = backend instanceof RpcBackend ? backend.endpoints.currentUrl : networkConfig.rpcUrl;
+    throw new ChainIdMismatchError(networkConfig.chainId, chainId, rpcUrl);
+  }
+}
@@ -0,0 +1,223 @@
+import fs from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import { fromBase64, toBase64 } from '@cosmjs/encoding';
+import { SigningStargateClient, StdFee } from '@cosmjs/stargate';
+import { TxRaw } from 'cosmjs-types/cosmos/tx/v1beta1/tx';
+import { MultiSendTx, Recipient, ZigchainConfig } from './types';
+import { MultiSendService } from './multisend';
+import { WalletService } from './wallet';
+import { formatCoins } from './coins';
+
+// An unsigned batch exported by the online machine
+export interface UnsignedBatchFile {
+  batchNumber: number;
+  chainId: string;
+  signerAddress: string;
+  accountNumber: number;
+  sequence: number;
+  recipientCount: number;
+  multiSendTx: MultiSendTx;
+  fee: StdFee;
+  memo: string;
+}
+
+// A signed batch written by the offline machine
+export interface SignedBatchFile {
+  batchNumber: number;
+  chainId: string;
+  signerAddress: string;
+  accountNumber: number;
+  sequence: number;
+  recipientCount: number;
+  transactionHash: string;
+  txBytes: string; // base64
+}
+
+/**
+ * Split sending into three steps so the signing key never touches a machine with RPC access:
+ * export unsigned batches (online), sign them (offline), broadcast the signed files (online)
+ */
+export class OfflineSigningService {
+  private hashesFilePath: string;
+
+  constructor(
+    private multiSendService: MultiSendService,
+    private networkConfig: ZigchainConfig
+  ) {
+    this.hashesFilePath = path.join(process.cwd(), 'transaction-hashes.txt');
+  }
+
+  /**
+   * Write one unsigned transaction per batch, with consecutive sequence numbers
+   */
+  async exportUnsigned(
+    senderAddress: string,
+    batches: Recipient[][],
+    outputDir: string
+  ): Promise<string[]> {
+    if (batches.some(batch => batch.some(recipient => recipient.memo))) {
+      throw new Error('Offline signing only sends MsgMultiSend batches, so recipients with a memo have to be sent with the send command');
+    }
+    const client = await this.multiSendService.connect();
+    const chainId = await client.getChainId();
+    const { accountNumber, sequence } = await client.getSequence(senderAddress);
+    const files: string[] = [];
+
+    fs.mkdirSync(outputDir, { recursive: true });
+    console.log(`Exporting ${batches.length} unsigned batches for ${senderAddress} (account ${accountNumber}, starting sequence ${sequence})`);
+
+    for (let i = 0; i < batches.length; i++) {
+      const multiSendTx = await this.multiSendService.createMultiSendTx(batches[i], senderAddress);
+      // Simulate at the account's current sequence, which is the only one the chain accepts right now
+      const fee = await this.multiSendService.simulateFeeForAccount(senderAddress, multiSendTx, sequence);
+
+      const unsigned: UnsignedBatchFile = {
+        batchNumber: i + 1,
+        chainId,
+        signerAddress: senderAddress,
+        accountNumber,
+        sequence: sequence + i,
+        recipientCount: batches[i].length,
+        multiSendTx,
+        fee,
+        memo: ''
+      };
+
+      const filePath = path.join(outputDir, this.batchFileName(unsigned.batchNumber));
+      fs.writeFileSync(filePath, JSON.stringify(unsigned, null, 2), 'utf8');
+      files.push(filePath);
+      console.log(`Batch #${unsigned.batchNumber}: sequence ${unsigned.sequence}, fee ${formatCoins(fee.amount, this.networkConfig.denomUnits)} -> ${filePath}`);
+    }
+
+    return files;
+  }
+
+  /**
+   * Sign every unsigned batch file in a directory without any network access
+   */
+  async signUnsigned(walletService: WalletService, inputDir: string, outputDir: string): Promise<string[]> {
+    const wallet = await walletService.createWallet();
+    const [account] = await wallet.getAccounts();
+    const client = await SigningStargateClient.offline(wallet);
+    const files: string[] = [];
+
+    fs.mkdirSync(outputDir, { recursive: true });
+
+    for (const filePath of this.listBatchFiles(inputDir)) {
+      const unsigned = JSON.parse(fs.readFileSync(filePath, 'utf8')) as UnsignedBatchFile;
+
+      if (unsigned.signerAddress !== account.address) {
+        throw new Error(`${filePath} must be signed by ${unsigned.signerAddress}, but the wallet is ${account.address}`);
+      }
+
+      const txRaw = await client.sign(
+        unsigned.signerAddress,
+        [this.multiSendService.buildMultiSendMsg(unsigned.multiSendTx)],
+        unsigned.fee,
+        unsigned.memo,
+        { accountNumber: unsigned.accountNumber, sequence: unsigned.sequence, chainId: unsigned.chainId }
+      );
+      const txBytes = TxRaw.encode(txRaw).finish();
+
+      const signed: SignedBatchFile = {
+        batchNumber: unsigned.batchNumber,
+        chainId: unsigned.chainId,
+        signerAddress: unsigned.signerAddress,
+        accountNumber: unsigned.accountNumber,
+        sequence: unsigned.sequence,
+        recipientCount: unsigned.recipientCount,
+        transactionHash: createHash('sha256').update(txBytes).digest('hex').toUpperCase(),
+        txBytes: toBase64(txBytes)
+      };
+
+      const signedPath = path.join(outputDir, this.batchFileName(signed.batchNumber));
+      fs.writeFileSync(signedPath, JSON.stringify(signed, null, 2), 'utf8');
+      files.push(signedPath);
+      console.log(`Signed Batch #${signed.batchNumber} (sequence ${signed.sequence}): ${signed.transactionHash}`);
+    }
+
+    return files;
+  }
+
+  /**
+   * Broadcast signed batch files in order and record the results.
+   * Batches already on chain are skipped; broadcasting stops at the first failure
+   * since every later batch depends on its sequence.
+   */
+  async broadcastSigned(inputDir: string): Promise<{ success: number; failed: number }> {
+    const client = await this.multiSendService.connect();
+    const chainId = await client.getChainId();
+    const files = this.listBatchFiles(inputDir);
+    let success = 0;
+
+    for (const filePath of files) {
+      const signed = JSON.parse(fs.readFileSync(filePath, 'utf8')) as SignedBatchFile;
+
+      if (signed.chainId !== chainId) {
+        throw new Error(`${filePath} was signed for chain ${signed.chainId}, but the node is on ${chainId}`);
+      }
+
+      console.log(`\n--- Broadcasting Batch #${signed.batchNumber} (${signed.recipientCount} recipients, sequence ${signed.sequence}) ---`);
+
+      try {
+        const existing = await client.getTx(signed.transactionHash);
+        if (existing && existing.code === 0) {
+          console.log(`Batch #${signed.batchNumber} is already on chain at height ${existing.height}, skipping`);
+          success++;
+          continue;
+        }
+
+        const result = await this.multiSendService.broadcastSignedTx(client, {
+          transactionHash: signed.transactionHash,
+          txBytes: fromBase64(signed.txBytes),
+          accountNumber: signed.accountNumber,
+          sequence: signed.sequence
+        });
+
+        console.log(`Batch #${signed.batchNumber} transaction successful at height ${result.height}`);
+        console.log(`Transaction hash: ${result.transactionHash}`);
+        this.appendHashesEntry(
+          `Batch #${signed.batchNumber} | ${signed.recipientCount} recipients | Hash: ${result.transactionHash} | Time: ${new Date().toISOString()} (OFFLINE)\n`
+        );
+        success++;
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        console.error(`Error broadcasting Batch #${signed.batchNumber}:`, errorMessage);
+        this.appendHashesEntry(
+          `Batch #${signed.batchNumber} | ${signed.recipientCount} recipients | ERROR: ${errorMessage} | Time: ${new Date().toISOString()} (OFFLINE)\n`
+        );
+
+        console.error(`Stopping: the remaining ${files.length - success - 1} batches use later sequences. Re-export and re-sign them after fixing the error.`);
+        return { success, failed: files.length - success };
+      }
+    }
+
+    return { success, failed: 0 };
+  }
+
+  /**
+   * Append a line to transaction-hashes.txt
+   */
+  private appendHashesEntry(entry: string): void {
+    fs.appendFileSync(this.hashesFilePath, entry, 'utf8');
+  }
+
+  /**
+   * Batch files in a directory, in batch order
+   */
+  private listBatchFiles(dir: string): string[] {
+    if (!fs.existsSync(dir)) {
+      throw new Error(`Directory not found: ${dir}`);
+    }
+
+    return fs.readdirSync(dir)
+      .filter(name => /^batch-\d+\.json$/.test(name))
+      .sort()
+      .map(name => path.join(dir, name));
+  }
+
+  private batchFileName(batchNumber: number): string {
+    return `batch-${String(batchNumber).padStart(4, '0')}.json`;
+  }
+}
@@ -0,0 +1,76 @@
+import fs from 'fs';
+import readline from 'readline';
+import { Writable } from 'stream';
+
+// Lines of each file descriptor not read yet; a descriptor can only be read to its end once
+const fdLines = new Map<number, string[]>();
+
+/**
+ * Read a secret such as a passphrase: the next line of the file descriptor when one is given
+ * (e.g. `0` with `< passphrase.txt`), otherwise from a prompt on the terminal that does not echo what is typed
+ */
+export async function readSecret(question: string, fd?: number): Promise<string> {
+  if (fd !== undefined) {
+    if (!fdLines.has(fd)) {
+      fdLines.set(fd, fs.readFileSync(fd, 'utf8').split(/\r?\n/));
+    }
+    const line = fdLines.get(fd)!.shift();
+    if (line === undefined || line === '') {
+      throw new Error(`Nothing left to read from file descriptor ${fd} for "${question.replace(/:\s*$/, '')}"`);
+    }
+    return line;
+  }
+
+  if (!process.stdin.isTTY) {
+    throw new Error(`Cannot prompt for "${question.replace(/:\s*$/, '')}" without a terminal, pass it through a file descriptor`);
+  }
+
+  // Echo the question, but not the answer
+  let muted = false;
+  const output = new Writable({
+    write(chunk, encoding, callback) {
+      if (!muted) {
+        process.stdout.write(chunk, encoding);
+      }
+      callback();
+    }
+  });
+  const rl = readline.createInterface({ input: process.stdin, output, terminal: true });
+
+  return new Promise(resolve => {
+    rl.question(question, answer => {
+      rl.close();
+      process.stdout.write('\n');
+      resolve(answer);
+    });
+    muted = true;
+  });
+}
+
+/**
+ * Read a new passphrase, typed twice unless it comes from a file descriptor
+ */
+export async function readNewPassphrase(fd?: number): Promise<string> {
+  const passphrase = await readSecret('New passphrase: ', fd);
+  if (fd === undefined && (await readSecret('Repeat the passphrase: ')) !== passphrase) {
+    throw new Error('The passphrases do not match');
+  }
+  return passphrase;
+}
+
+/**
+ * Ask a yes/no question on the terminal; anything but y or yes is no
+ */
+export async function confirm(question: string): Promise<boolean> {
+  if (!process.stdin.isTTY) {
+    return false;
+  }
+
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+  return new Promise(resolve => {
+    rl.question(`${question} [y/N] `, answer => {
+      rl.close();
+      resolve(/^y(es)?$/i.test(answer.trim()));
+    });
+  });
+}
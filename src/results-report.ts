@@ -0,0 +1,163 @@
+import { Recipient } from './types';
+import { getRecipientCoins } from './coins';
+import { RunStorage } from './storage';
+
+export const RESULTS_JSON_FILE = 'recipient-results.json';
+export const RESULTS_CSV_FILE = 'recipient-results.csv';
+
+export type RecipientStatus = 'pending' | 'success' | 'failed';
+
+// The recipients of a split batch that a part sent
+export interface BatchPart {
+  label: string;
+  recipients: Recipient[];
+}
+
+// One row per recipient and denom
+export interface RecipientResult {
+  address: string;
+  amount: string;
+  denom: string;
+  memo?: string; // The recipient's own memo, sent with MsgSend
+  batchNumber: number;
+  part?: string; // Label of the part that sent this row when the batch was split, e.g. 3.2
+  txHash?: string;
+  height?: number;
+  gasUsed?: number;
+  status: RecipientStatus;
+  error?: string;
+  updatedAt: string;
+}
+
+const CSV_COLUMNS: Array<keyof RecipientResult> = [
+  'address', 'amount', 'denom', 'memo', 'batchNumber', 'part', 'txHash', 'height', 'gasUsed', 'status', 'error', 'updatedAt'
+];
+
+/**
+ * Per-recipient results of a run, kept in recipient-results.json and recipient-results.csv.
+ * Both files are rewritten whenever a batch changes state, so they are current while the run is in progress.
+ */
+export class ResultsReport {
+  private batches = new Map<number, RecipientResult[]>();
+
+  private constructor(private storage: RunStorage) {}
+
+  /**
+   * Start an empty report for a new run, replacing the results of the previous run
+   */
+  static create(storage: RunStorage): ResultsReport {
+    return new ResultsReport(storage);
+  }
+
+  /**
+   * Load the report of an earlier run, to be updated by a resumed run or a retry
+   */
+  static load(storage: RunStorage): ResultsReport {
+    const report = new ResultsReport(storage);
+    const content = storage.read(RESULTS_JSON_FILE);
+
+    if (content !== undefined) {
+      const rows = JSON.parse(content) as RecipientResult[];
+      for (const row of rows) {
+        const batchRows = report.batches.get(row.batchNumber) || [];
+        batchRows.push(row);
+        report.batches.set(row.batchNumber, batchRows);
+      }
+    }
+
+    return report;
+  }
+
+  /**
+   * Add a batch's recipients as pending, unless the report already has the batch
+   */
+  addBatch(batchNumber: number, recipients: Recipient[], defaultDenom: string): void {
+    if (this.batches.has(batchNumber)) {
+      return;
+    }
+
+    const now = new Date().toISOString();
+    this.batches.set(batchNumber, recipients.flatMap(recipient =>
+      getRecipientCoins(recipient, defaultDenom).map(coin => ({
+        address: recipient.address,
+        amount: coin.amount,
+        denom: coin.denom,
+        ...(recipient.memo ? { memo: recipient.memo } : {}),
+        batchNumber,
+        status: 'pending' as RecipientStatus,
+        updatedAt: now
+      }))
+    ));
+  }
+
+  /**
+   * Record the transaction that paid a batch. Batches settled from the journal may lack the height and gas used.
+   */
+  markBatchSucceeded(
+    batchNumber: number,
+    tx: { transactionHash: string; height?: number; gasUsed?: bigint },
+    part?: BatchPart
+  ): void {
+    this.updateBatch(batchNumber, part, {
+      txHash: tx.transactionHash,
+      ...(tx.height !== undefined ? { height: tx.height } : {}),
+      ...(tx.gasUsed !== undefined ? { gasUsed: Number(tx.gasUsed) } : {}),
+      status: 'success',
+      error: undefined
+    });
+  }
+
+  markBatchFailed(batchNumber: number, error: string, part?: BatchPart): void {
+    this.updateBatch(batchNumber, part, { status: 'failed', error });
+  }
+
+  /**
+   * Number of rows with each status
+   */
+  countStatuses(): Record<RecipientStatus, number> {
+    const counts: Record<RecipientStatus, number> = { pending: 0, success: 0, failed: 0 };
+    for (const row of Array.from(this.batches.values()).flat()) {
+      counts[row.status]++;
+    }
+    return counts;
+  }
+
+  /**
+   * Write the JSON and CSV files
+   */
+  save(): void {
+    const rows = Array.from(this.batches.keys())
+      .sort((a, b) => a - b)
+      .flatMap(batchNumber => this.batches.get(batchNumber)!);
+
+    this.storage.write(RESULTS_JSON_FILE, JSON.stringify(rows, null, 2));
+    this.storage.write(RESULTS_CSV_FILE, [
+      CSV_COLUMNS.join(','),
+      ...rows.map(row => CSV_COLUMNS.map(column => this.csvField(row[column])).join(','))
+    ].join('\n') + '\n');
+  }
+
+  /**
+   * Update the rows of a batch, or only those of one of its parts
+   */
+  private updateBatch(batchNumber: number, part: BatchPart | undefined, changes: Partial<RecipientResult>): void {
+    const rows = this.batches.get(batchNumber);
+    if (!rows) {
+      return;
+    }
+
+    const updatedAt = new Date().toISOString();
+    const addresses = part ? new Set(part.recipients.map(recipient => recipient.address)) : null;
+    this.batches.set(batchNumber, rows.map(row =>
+      !addresses || addresses.has(row.address)
+        ? { ...row, ...changes, ...(part ? { part: part.label } : {}), updatedAt }
+        : row
+    ));
+    this.save();
+  }
+
+  private csvField(value: string | number | undefined): string {
+    const text = value === undefined ? '' : String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+}
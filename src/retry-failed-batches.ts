@@ -1,131 +1,313 @@
-import fs from 'fs';
-import path from 'path';
-import { MultiSendService } from './multisend';
+import { MultiSendService, toBroadcastAttempt } from './multisend';
 import { WalletService } from './wallet';
-import { walletConfig, zigchainConfig } from './config';
-import { Recipient } from './types';
+import { BroadcastAttempt, DelegationConfig, FailedBatch, ZigchainConfig } from './types';
+import { ResultsReport } from './results-report';
+import { JournalSegment, RunJournal } from './run-journal';
+import { TRANSACTION_HASHES_FILE } from './batch-processor';
+import { belongsToRun, FAILED_BATCHES_FILE, getFailedBatchLabel, isSameFailedBatch, mergeAttempts, readFailedBatches, writeFailedBatches } from './failed-batches';
+import { createRunContext, RunContext, sleep, throwIfCancelled } from './run-context';
+import { backoffDelay, classifyError, describeClassification, ErrorClassification, RunAbortedError } from './errors';
 
 /**
  * Utility to retry failed batches from previous runs
  */
 export class FailedBatchRetrier {
-  private failedBatchesPath: string;
-  private hashesFilePath: string;
   private multiSendService: MultiSendService;
+  private results: ResultsReport;
   
-  constructor() {
-    this.failedBatchesPath = path.join(process.cwd(), 'failed-batches.json');
-    this.hashesFilePath = path.join(process.cwd(), 'transaction-hashes.txt');
-    
-    // Initialize services
-    const walletService = new WalletService(walletConfig, zigchainConfig);
-    this.multiSendService = new MultiSendService(walletService, zigchainConfig);
+  constructor(
+    private walletService: WalletService,
+    private networkConfig: ZigchainConfig,
+    delegation: DelegationConfig = {},
+    private context: RunContext = createRunContext()
+  ) {
+    this.multiSendService = new MultiSendService(walletService, networkConfig, delegation, context.logger);
+    this.results = ResultsReport.load(context.storage);
   }
   
   /**
-   * Sleep for a specified duration
+   * Sleep for a specified duration, or until the retry is cancelled
    */
   private async sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+    return sleep(ms, this.context.signal);
   }
   
   /**
    * Save a transaction hash to the file
    */
-  private saveTransactionHash(batchNumber: number, hash: string, recipientCount: number): void {
-    const entry = `Batch #${batchNumber} | ${recipientCount} recipients | Hash: ${hash} | Time: ${new Date().toISOString()} (RETRY)\n`;
+  private saveTransactionHash(label: string, hash: string, recipientCount: number): void {
+    const entry = `Batch #${label} | ${recipientCount} recipients | Hash: ${hash} | Time: ${new Date().toISOString()} (RETRY)\n`;
     
-    fs.appendFileSync(this.hashesFilePath, entry, 'utf8');
+    this.context.storage.append(TRANSACTION_HASHES_FILE, entry);
     
-    console.log(`Transaction hash saved to ${this.hashesFilePath}`);
+    this.context.logger.info(`Transaction hash saved to ${this.context.storage.locate(TRANSACTION_HASHES_FILE)}`);
   }
   
   /**
-   * Remove a batch from the failed batches file
+   * Label of a failed batch entry: its batch number, or its part label if the batch was split
    */
-  private removeFromFailedBatches(batchNumber: number): void {
-    if (!fs.existsSync(this.failedBatchesPath)) {
-      return;
-    }
-    
+  private getLabel(batch: FailedBatch): string {
+    return getFailedBatchLabel(batch);
+  }
+  
+  /**
+   * Remove a batch from the failed batches file. Entries with the same label from other runs are kept.
+   */
+  private removeFromFailedBatches(entry: FailedBatch): void {
+    const label = this.getLabel(entry);
     try {
-      const content = fs.readFileSync(this.failedBatchesPath, 'utf8');
-      const failedBatches = JSON.parse(content);
+      const failedBatches = readFailedBatches(this.context.storage);
       
-      const updatedBatches = failedBatches.filter((batch: any) => batch.batchNumber !== batchNumber);
+      const updatedBatches = failedBatches.filter(batch => !isSameFailedBatch(batch, entry));
       
-      fs.writeFileSync(this.failedBatchesPath, JSON.stringify(updatedBatches, null, 2), 'utf8');
-      console.log(`Removed batch #${batchNumber} from failed batches file`);
+      writeFailedBatches(this.context.storage, updatedBatches);
+      this.context.logger.info(`Removed batch #${label} from failed batches file`);
     } catch (error) {
-      console.error('Error removing batch from failed batches file:', error);
+      this.context.logger.error('Error removing batch from failed batches file:', error);
     }
   }
   
+  /**
+   * Record the attempts made for a batch that is still failing
+   */
+  private updateFailedBatchAttempts(
+    entry: FailedBatch,
+    attempts: BroadcastAttempt[],
+    error: any,
+    classification: ErrorClassification
+  ): void {
+    const failedBatches = this.getFailedBatches();
+    const batch = failedBatches.find(candidate => isSameFailedBatch(candidate, entry));
+    
+    if (!batch) {
+      return;
+    }
+    
+    batch.attempts = attempts;
+    batch.error = error instanceof Error ? error.message : String(error);
+    batch.category = classification.category;
+    batch.code = classification.code;
+    batch.codespace = classification.codespace;
+    batch.timestamp = new Date().toISOString();
+    writeFailedBatches(this.context.storage, failedBatches);
+  }
+  
   /**
    * Get all failed batches
    */
-  getFailedBatches(): Array<{batchNumber: number, recipients: Recipient[], error: string}> {
-    if (!fs.existsSync(this.failedBatchesPath)) {
-      console.log('No failed batches file found');
+  getFailedBatches(): FailedBatch[] {
+    if (this.context.storage.read(FAILED_BATCHES_FILE) === undefined) {
+      this.context.logger.info('No failed batches file found');
       return [];
     }
     
     try {
-      const content = fs.readFileSync(this.failedBatchesPath, 'utf8');
-      return JSON.parse(content);
+      return readFailedBatches(this.context.storage);
     } catch (error) {
-      console.error('Error reading failed batches:', error);
+      this.context.logger.error('Error reading failed batches:', error);
       return [];
     }
   }
   
   /**
-   * Retry a specific failed batch
+   * Retry a specific failed batch. A batch number retries every failed part of a split batch;
+   * a part label such as 3.2 retries only that part.
    */
-  async retryBatch(batchNumber: number, maxRetries: number = 3): Promise<boolean> {
-    const failedBatches = this.getFailedBatches();
-    const batchToRetry = failedBatches.find(batch => batch.batchNumber === batchNumber);
+  async retryBatch(batch: number | string, maxRetries: number = 3): Promise<boolean> {
+    const label = String(batch);
+    const entries = this.getFailedBatches().filter(entry =>
+      label.includes('.') ? this.getLabel(entry) === label : entry.batchNumber === parseInt(label, 10)
+    );
     
-    if (!batchToRetry) {
-      console.error(`Batch #${batchNumber} not found in failed batches`);
+    if (entries.length === 0) {
+      this.context.logger.error(`Batch #${label} not found in failed batches`);
       return false;
     }
     
-    console.log(`\n--- Retrying Batch #${batchNumber} (${batchToRetry.recipients.length} recipients) ---`);
-    console.log(`Original error: ${batchToRetry.error}`);
+    let success = true;
+    for (const entry of entries) {
+      success = (await this.retryEntry(entry, maxRetries)) && success;
+    }
+    
+    return success;
+  }
+  
+  /**
+   * The service to resend a batch with: the sender account it was first sent from,
+   * so its earlier transactions are checked against that account's sequence
+   */
+  private getMultiSendService(batch: FailedBatch): MultiSendService {
+    if (!batch.sender) {
+      return this.multiSendService;
+    }
     
+    const { storage, logger } = this.context;
+    const sender = RunJournal.exists(storage)
+      ? RunJournal.load(storage).senders.find(entry => entry.address === batch.sender)
+      : undefined;
+    
+    if (!sender) {
+      throw new Error(`Batch #${this.getLabel(batch)} was sent from ${batch.sender}, whose HD path is not in the run journal`);
+    }
+    
+    return new MultiSendService(this.walletService.deriveAccount(sender.hdPath), this.networkConfig, {}, logger);
+  }
+  
+  /**
+   * The run journal and its record of a failed batch, when the batch is part of the journalled run
+   */
+  private getJournalSegment(batch: FailedBatch): { journal: RunJournal; segment: JournalSegment } | null {
+    const { storage } = this.context;
+    if (!RunJournal.exists(storage)) {
+      return null;
+    }
+    
+    const journal = RunJournal.load(storage);
+    return belongsToRun(batch, journal) ? { journal, segment: journal.getSegment(this.getLabel(batch)) } : null;
+  }
+  
+  /**
+   * Retry one entry of the failed batches file. The run journal is kept in step, so a resumed run
+   * does not send a batch the retry has paid.
+   */
+  private async retryEntry(batchToRetry: FailedBatch, maxRetries: number): Promise<boolean> {
+    const label = this.getLabel(batchToRetry);
+    const part = batchToRetry.label ? { label: batchToRetry.label, recipients: batchToRetry.recipients } : undefined;
+    
+    this.context.logger.info(`\n--- Retrying Batch #${label} (${batchToRetry.recipients.length} recipients) ---`);
+    this.context.logger.info(`Original error: ${batchToRetry.error}`);
+    
+    // Recipients of batches from before the results report existed are added to it
+    this.results.addBatch(batchToRetry.batchNumber, batchToRetry.recipients, this.networkConfig.denom);
+    
+    let multiSendService: MultiSendService;
+    try {
+      multiSendService = this.getMultiSendService(batchToRetry);
+    } catch (error) {
+      this.context.logger.error(error instanceof Error ? error.message : error);
+      return false;
+    }
+    
+    // A resumed run may have settled the batch since it failed
+    const journalled = this.getJournalSegment(batchToRetry);
+    const journal = journalled?.journal;
+    if (journalled?.segment.state === 'confirmed' && journalled.segment.txHash) {
+      const { txHash, height } = journalled.segment;
+      this.context.logger.info(`Batch #${label} was confirmed by a resumed run (hash: ${txHash}), not resending`);
+      this.results.markBatchSucceeded(batchToRetry.batchNumber, { transactionHash: txHash, height }, part);
+      this.removeFromFailedBatches(batchToRetry);
+      return true;
+    }
+    if (journalled?.segment.state === 'split') {
+      this.context.logger.error(`Batch #${label} was split by a resumed run, which sends its parts instead`);
+      this.removeFromFailedBatches(batchToRetry);
+      return false;
+    }
+    
+    // Earlier attempts are checked on chain before anything is resent, those a resumed run made included
+    const attempts: BroadcastAttempt[] = mergeAttempts(batchToRetry.attempts, journalled?.segment.attempts);
     let success = false;
     let retryCount = 0;
+    let lastError: any = null;
+    let classification: ErrorClassification | null = null;
     
-    while (retryCount < maxRetries && !success) {
+    const { batchNumber } = batchToRetry;
+    this.context.events?.emit('batchStarted', {
+      batchNumber,
+      label,
+      recipientCount: batchToRetry.recipients.length,
+      ...(batchToRetry.sender ? { sender: batchToRetry.sender } : {})
+    });
+    
+    // A cancelled retry stops before its next attempt, but still records the attempts made so far
+    while (retryCount < maxRetries && !success && !this.context.signal?.aborted) {
       try {
-        console.log(`Retry attempt ${retryCount + 1}/${maxRetries}...`);
+        this.context.logger.info(`Retry attempt ${retryCount + 1}/${maxRetries}...`);
         
         // Execute the MultiSend transaction
-        const hash = await this.multiSendService.executeMultiSend(batchToRetry.recipients);
+        const result = await multiSendService.executeMultiSend(
+          batchToRetry.recipients,
+          undefined,
+          {
+            onSigned: signedTx => {
+              const attempt = toBroadcastAttempt(signedTx);
+              attempts.push(attempt);
+              journal?.markSigned(label, attempt);
+            },
+            onBroadcast: signedTx => this.context.events?.emit('batchBroadcast', {
+              batchNumber,
+              label,
+              transactionHash: signedTx.transactionHash,
+              sequence: signedTx.sequence
+            }),
+            onRejected: signedTx => {
+              const index = attempts.findIndex(attempt => attempt.transactionHash === signedTx.transactionHash);
+              if (index >= 0) {
+                attempts.splice(index, 1);
+              }
+              journal?.markRejected(label, signedTx.transactionHash);
+            }
+          },
+          attempts,
+          batchToRetry.memo
+        );
+        const hash = result.transactionHash;
+        journal?.markConfirmed(label, hash, result.height);
+        this.results.markBatchSucceeded(batchToRetry.batchNumber, result, part);
         
-        console.log(`\nBatch #${batchNumber} retry successful!`);
-        console.log(`Transaction hash: ${hash}`);
-        console.log(`You can view the transaction at: https://explorer.zigchain.com/tx/${hash}`);
+        this.context.logger.info(`\nBatch #${label} retry successful!`);
+        this.context.logger.info(`Transaction hash: ${hash}`);
+        const explorerUrl = multiSendService.getExplorerUrl(hash);
+        if (explorerUrl) {
+          this.context.logger.info(`You can view the transaction at: ${explorerUrl}`);
+        }
         
         // Save the hash to the file
-        this.saveTransactionHash(batchNumber, hash, batchToRetry.recipients.length);
+        this.saveTransactionHash(label, hash, batchToRetry.recipients.length);
         
         // Remove from failed batches
-        this.removeFromFailedBatches(batchNumber);
+        this.removeFromFailedBatches(batchToRetry);
+        this.context.events?.emit('batchConfirmed', { batchNumber, label, transactionHash: hash, height: result.height });
         
         success = true;
       } catch (error) {
-        console.error(`Error on retry attempt ${retryCount + 1}:`, error);
+        lastError = error;
+        classification = classifyError(error);
+        this.context.logger.error(`Error on retry attempt ${retryCount + 1} (${describeClassification(classification)}):`, error);
         retryCount++;
         
-        if (retryCount < maxRetries) {
-          console.log(`Waiting 10 seconds before next retry attempt...`);
-          await this.sleep(10000);
+        // Only network errors and stale sequences can be fixed by sending again
+        if (classification.policy !== 'backoff' && classification.policy !== 'requery-sequence') {
+          break;
+        }
+        
+        if (retryCount < maxRetries && classification.policy === 'backoff') {
+          const delay = backoffDelay(multiSendService.timing.failurePauseMs, retryCount);
+          this.context.logger.info(`Waiting ${delay / 1000} seconds before next retry attempt...`);
+          await this.sleep(delay);
         }
       }
     }
     
+    if (!success && classification) {
+      const errorMessage = lastError instanceof Error ? lastError.message : String(lastError);
+      this.updateFailedBatchAttempts(batchToRetry, attempts, lastError, classification);
+      journal?.markFailed(label, errorMessage);
+      this.results.markBatchFailed(batchToRetry.batchNumber, errorMessage, part);
+      this.context.events?.emit('batchFailed', { batchNumber, label, error: errorMessage, category: classification.category });
+      
+      if (classification.policy === 'abort-run') {
+        throw new RunAbortedError(
+          `Stopping retries after Batch #${label} failed with ${describeClassification(classification)}: ${errorMessage}`,
+          classification
+        );
+      }
+    }
+    
+    if (!success) {
+      throwIfCancelled(this.context);
+    }
+    
     return success;
   }
   
@@ -136,17 +318,18 @@ export class FailedBatchRetrier {
     const failedBatches = this.getFailedBatches();
     
     if (failedBatches.length === 0) {
-      console.log('No failed batches to retry');
+      this.context.logger.info('No failed batches to retry');
       return { success: 0, failed: 0 };
     }
     
-    console.log(`Found ${failedBatches.length} failed batches to retry`);
+    this.context.logger.info(`Found ${failedBatches.length} failed batches to retry`);
     
     let successCount = 0;
     let failedCount = 0;
     
     for (const batch of failedBatches) {
-      const result = await this.retryBatch(batch.batchNumber, maxRetries);
+      throwIfCancelled(this.context);
+      const result = await this.retryEntry(batch, maxRetries);
       
       if (result) {
         successCount++;
@@ -156,58 +339,13 @@ export class FailedBatchRetrier {
       
       // Wait between batches
       if (batch !== failedBatches[failedBatches.length - 1]) {
-        console.log('Waiting 5 seconds before next batch retry...');
-        await this.sleep(5000);
+        const delay = this.multiSendService.timing.batchPauseMs;
+        this.context.logger.info(`Waiting ${delay / 1000} seconds before next batch retry...`);
+        await this.sleep(delay);
       }
     }
     
-    console.log(`\nRetry summary: ${successCount} succeeded, ${failedCount} failed`);
+    this.context.logger.info(`\nRetry summary: ${successCount} succeeded, ${failedCount} failed`);
     return { success: successCount, failed: failedCount };
   }
 }
-
-// CLI handler for retrying failed batches
-if (require.main === module) {
-  const retrier = new FailedBatchRetrier();
-  
-  // Check if a specific batch number was provided
-  const args = process.argv.slice(2);
-  const batchArg = args.find(arg => arg.startsWith('--batch='));
-  
-  if (batchArg) {
-    const batchNumber = parseInt(batchArg.split('=')[1], 10);
-    
-    if (isNaN(batchNumber)) {
-      console.error('Invalid batch number');
-      process.exit(1);
-    }
-    
-    console.log(`Retrying batch #${batchNumber}...`);
-    retrier.retryBatch(batchNumber)
-      .then(success => {
-        if (success) {
-          console.log(`Successfully retried batch #${batchNumber}`);
-          process.exit(0);
-        } else {
-          console.error(`Failed to retry batch #${batchNumber}`);
-          process.exit(1);
-        }
-      })
-      .catch(error => {
-        console.error('Error retrying batch:', error);
-        process.exit(1);
-      });
-  } else {
-    // Retry all failed batches
-    console.log('Retrying all failed batches...');
-    retrier.retryAllBatches()
-      .then(result => {
-        console.log(`Retry complete: ${result.success} succeeded, ${result.failed} failed`);
-        process.exit(result.failed > 0 ? 1 : 0);
-      })
-      .catch(error => {
-        console.error('Error retrying batches:', error);
-        process.exit(1);
-      });
-  }
-}
@@ -0,0 +1,301 @@
+import { Comet38Client, CometClient, RpcClient, Tendermint34Client, Tendermint37Client } from '@cosmjs/tendermint-rpc';
+import { consoleLogger, Logger } from './logger';
+
+type JsonRpcRequest = Parameters<RpcClient['execute']>[0];
+type JsonRpcSuccessResponse = Awaited<ReturnType<RpcClient['execute']>>;
+
+export interface RpcEndpointOptions {
+  requestsPerSecond: number; // Per endpoint, 0 for no limit
+  maxBlockLag: number; // Endpoints this many blocks behind the highest one are skipped
+  healthCheckIntervalMs: number; // How often the endpoints are checked again, when there are several
+  requestTimeoutMs: number;
+  chainId?: string; // Endpoints on another chain are skipped
+  logger: Logger;
+}
+
+export const DEFAULT_RPC_ENDPOINT_OPTIONS: RpcEndpointOptions = {
+  requestsPerSecond: 10,
+  maxBlockLag: 5,
+  healthCheckIntervalMs: 60000,
+  requestTimeoutMs: 30000,
+  logger: consoleLogger
+};
+
+// What the last health check found out about an endpoint
+export interface RpcEndpointHealth {
+  url: string;
+  healthy: boolean;
+  height?: number; // Latest block height
+  catchingUp?: boolean;
+  chainId?: string;
+  latencyMs?: number; // Of the status request
+  problem?: string; // Why the endpoint is skipped
+}
+
+interface Endpoint {
+  url: string;
+  health: RpcEndpointHealth;
+  nextRequestAt: number; // Earliest time of the next request, for the rate limit
+}
+
+// Connection errors and statuses of requests that never reached the node, so they are safe to send elsewhere
+const UNDELIVERED_ERROR_CODES = ['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN', 'EHOSTUNREACH', 'ENETUNREACH', 'UND_ERR_CONNECT_TIMEOUT'];
+const UNDELIVERED_STATUSES = [429, 502, 503];
+
+/**
+ * Thrown when an endpoint cannot be reached or does not answer, as opposed to a node answering with an error
+ */
+export class RpcEndpointError extends Error {
+  constructor(
+    public readonly url: string,
+    public readonly reason: string,
+    public readonly mayHaveArrived: boolean // The node may have received and acted on the request
+  ) {
+    super(`RPC endpoint ${url} did not answer: ${reason}`);
+    this.name = 'RpcEndpointError';
+  }
+}
+
+/**
+ * A list of RPC endpoints used as one: requests go to the current endpoint and fail over to the next
+ * healthy one when it cannot be reached. With several endpoints, they are checked every so often, and
+ * endpoints that are catching up, on another chain or behind the others are skipped. Requests to each
+ * endpoint are rate limited, so public nodes do not throttle a long run.
+ */
+export class RpcEndpointPool implements RpcClient {
+  private readonly options: RpcEndpointOptions;
+  private readonly endpoints: Endpoint[];
+  private current = 0;
+  private lastHealthCheck = 0;
+  private healthCheck: Promise<RpcEndpointHealth[]> | null = null;
+  private cometClient: Promise<CometClient> | null = null;
+  private nextRequestId = 1;
+
+  constructor(urls: string[], options: Partial<RpcEndpointOptions> = {}) {
+    if (urls.length === 0) {
+      throw new Error('At least one RPC endpoint is needed');
+    }
+    const invalid = urls.find(url => !/^https?:\/\//.test(url));
+    if (invalid) {
+      throw new Error(`RPC endpoint URL must start with http:// or https://: ${invalid}`);
+    }
+
+    this.options = { ...DEFAULT_RPC_ENDPOINT_OPTIONS, ...options };
+    this.endpoints = urls.map(url => ({ url, health: { url, healthy: true }, nextRequestAt: 0 }));
+  }
+
+  /**
+   * URL of the endpoint requests currently go to
+   */
+  get currentUrl(): string {
+    return this.endpoints[this.current].url;
+  }
+
+  /**
+   * A client over the pool, created once. Its version is detected from the first endpoint that answers.
+   */
+  getCometClient(): Promise<CometClient> {
+    if (!this.cometClient) {
+      this.cometClient = this.createCometClient().catch(error => {
+        this.cometClient = null;
+        throw error;
+      });
+    }
+    return this.cometClient;
+  }
+
+  /**
+   * Send a JSON-RPC request, failing over to the next endpoint when one cannot be reached.
+   * A broadcast that may have reached a node is not sent elsewhere: the caller finds out whether it was.
+   */
+  async execute(request: JsonRpcRequest): Promise<JsonRpcSuccessResponse> {
+    await this.checkHealthIfDue();
+
+    let lastError: RpcEndpointError | undefined;
+    for (const endpoint of this.candidates()) {
+      try {
+        const response = await this.send(endpoint, request);
+        this.switchTo(endpoint);
+        return response;
+      } catch (error) {
+        if (!(error instanceof RpcEndpointError)) {
+          throw error;
+        }
+
+        lastError = error;
+        this.markUnhealthy(endpoint, error.reason);
+        if (error.mayHaveArrived && request.method.startsWith('broadcast_tx')) {
+          throw error;
+        }
+      }
+    }
+
+    throw lastError!;
+  }
+
+  /**
+   * The connections are shared by every client of the pool, so they stay open
+   */
+  disconnect(): void {}
+
+  /**
+   * Query the status of every endpoint and mark those that should be skipped
+   */
+  async checkHealth(): Promise<RpcEndpointHealth[]> {
+    this.lastHealthCheck = Date.now();
+    const statuses = await Promise.all(this.endpoints.map(endpoint => this.queryStatus(endpoint)));
+    const highest = Math.max(0, ...statuses.map(status => status.height ?? 0));
+
+    this.endpoints.forEach((endpoint, index) => {
+      const status = statuses[index];
+      const problem = status.problem
+        ?? (status.catchingUp ? 'catching up' : undefined)
+        ?? (this.options.chainId && status.chainId !== this.options.chainId ? `on chain ${status.chainId}` : undefined)
+        ?? (highest - status.height! > this.options.maxBlockLag ? `${highest - status.height!} blocks behind` : undefined);
+
+      endpoint.health = { ...status, healthy: !problem, ...(problem ? { problem } : {}) };
+    });
+
+    // Stay on the current endpoint while it is healthy, so the run sees one node's mempool
+    if (!this.endpoints[this.current].health.healthy) {
+      const healthy = this.endpoints.find(endpoint => endpoint.health.healthy);
+      if (healthy) {
+        this.switchTo(healthy);
+      }
+    }
+
+    return this.endpoints.map(endpoint => endpoint.health);
+  }
+
+  private async createCometClient(): Promise<CometClient> {
+    const response = await this.execute({ jsonrpc: '2.0', id: this.nextRequestId++, method: 'status', params: {} });
+    const version: string = response.result?.node_info?.version ?? '';
+
+    // The same detection as connectComet: Tendermint 0.34 when the version is not recognised
+    if (version.startsWith('0.37.')) {
+      return Tendermint37Client.create(this);
+    }
+    if (version.startsWith('0.38.')) {
+      return Comet38Client.create(this);
+    }
+    return Tendermint34Client.create(this);
+  }
+
+  /**
+   * Check the endpoints when the last check is too old. A single endpoint is always used, so it is not checked.
+   */
+  private async checkHealthIfDue(): Promise<void> {
+    if (this.endpoints.length === 1 || Date.now() - this.lastHealthCheck < this.options.healthCheckIntervalMs) {
+      return;
+    }
+
+    if (!this.healthCheck) {
+      this.healthCheck = this.checkHealth().finally(() => {
+        this.healthCheck = null;
+      });
+    }
+    await this.healthCheck;
+  }
+
+  /**
+   * Healthy endpoints from the current one on, or every endpoint when none is healthy
+   */
+  private candidates(): Endpoint[] {
+    const ordered = [...this.endpoints.slice(this.current), ...this.endpoints.slice(0, this.current)];
+    const healthy = ordered.filter(endpoint => endpoint.health.healthy);
+    return healthy.length > 0 ? healthy : ordered;
+  }
+
+  private switchTo(endpoint: Endpoint): void {
+    const index = this.endpoints.indexOf(endpoint);
+    if (index !== this.current) {
+      this.options.logger.warn(`Switching RPC endpoint from ${this.currentUrl} to ${endpoint.url}`);
+      this.current = index;
+    }
+  }
+
+  /**
+   * Skip an endpoint until the next health check finds it healthy again
+   */
+  private markUnhealthy(endpoint: Endpoint, problem: string): void {
+    endpoint.health = { ...endpoint.health, healthy: false, problem };
+    this.options.logger.warn(`RPC endpoint ${endpoint.url} did not answer (${problem})`);
+  }
+
+  private async queryStatus(endpoint: Endpoint): Promise<RpcEndpointHealth> {
+    const startedAt = Date.now();
+
+    try {
+      const response = await this.send(endpoint, { jsonrpc: '2.0', id: this.nextRequestId++, method: 'status', params: {} });
+      const { node_info: nodeInfo, sync_info: syncInfo } = response.result ?? {};
+
+      return {
+        url: endpoint.url,
+        healthy: true,
+        height: parseInt(syncInfo?.latest_block_height ?? '0', 10),
+        catchingUp: syncInfo?.catching_up === true,
+        chainId: nodeInfo?.network,
+        latencyMs: Date.now() - startedAt
+      };
+    } catch (error) {
+      return { url: endpoint.url, healthy: false, problem: error instanceof RpcEndpointError ? error.reason : String(error) };
+    }
+  }
+
+  /**
+   * Post a request to one endpoint, once its rate limit allows. A node answering with an error throws
+   * the same error as cosmjs's HttpClient; an endpoint that does not answer throws RpcEndpointError.
+   */
+  private async send(endpoint: Endpoint, request: JsonRpcRequest): Promise<JsonRpcSuccessResponse> {
+    await this.throttle(endpoint);
+
+    let response: Response;
+    try {
+      response = await fetch(endpoint.url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(request),
+        signal: AbortSignal.timeout(this.options.requestTimeoutMs)
+      });
+    } catch (error) {
+      if (error instanceof Error && error.name === 'TimeoutError') {
+        throw new RpcEndpointError(endpoint.url, `timed out after ${this.options.requestTimeoutMs / 1000} seconds`, true);
+      }
+      // fetch only says "fetch failed", its cause says why
+      const cause = (error as { cause?: { code?: string; message?: string } }).cause;
+      const reason = cause?.code || cause?.message || (error instanceof Error ? error.message : String(error));
+      throw new RpcEndpointError(endpoint.url, reason, !UNDELIVERED_ERROR_CODES.includes(cause?.code || ''));
+    }
+
+    if (!response.ok) {
+      throw new RpcEndpointError(endpoint.url, `HTTP status ${response.status}`, !UNDELIVERED_STATUSES.includes(response.status));
+    }
+
+    let body: { result?: unknown; error?: unknown };
+    try {
+      body = await response.json();
+    } catch (error) {
+      throw new RpcEndpointError(endpoint.url, `invalid response: ${error instanceof Error ? error.message : String(error)}`, true);
+    }
+    if (body.error) {
+      throw new Error(JSON.stringify(body.error));
+    }
+    return body as JsonRpcSuccessResponse;
+  }
+
+  /**
+   * Wait for the endpoint's next free slot, spacing requests evenly
+   */
+  private async throttle(endpoint: Endpoint): Promise<void> {
+    if (this.options.requestsPerSecond <= 0) {
+      return;
+    }
+
+    const now = Date.now();
+    const wait = endpoint.nextRequestAt - now;
+    endpoint.nextRequestAt = Math.max(now, endpoint.nextRequestAt) + 1000 / this.options.requestsPerSecond;
+    if (wait > 0) {
+      await new Promise(resolve => setTimeout(resolve, wait));
+    }
+  }
+}
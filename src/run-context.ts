@@ -0,0 +1,51 @@
+import { consoleLogger, Logger } from './logger';
+import { FileStorage, RunStorage } from './storage';
+import { RunEventEmitter } from './events';
+import { RunCancelledError } from './errors';
+
+// What the services doing a run report to and keep their records in
+export interface RunContext {
+  logger: Logger;
+  storage: RunStorage;
+  events?: RunEventEmitter;
+  signal?: AbortSignal; // Once aborted, no new batch is sent
+}
+
+/**
+ * A run context that logs to the console and keeps its records in the working directory, unless told otherwise
+ */
+export function createRunContext(context: Partial<RunContext> = {}): RunContext {
+  return {
+    ...context,
+    logger: context.logger || consoleLogger,
+    storage: context.storage || new FileStorage()
+  };
+}
+
+/**
+ * Throw RunCancelledError once the run's signal has been aborted
+ */
+export function throwIfCancelled(context: RunContext): void {
+  if (context.signal?.aborted) {
+    throw new RunCancelledError();
+  }
+}
+
+/**
+ * Wait for a duration, returning early when the run is cancelled
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    if (signal?.aborted) {
+      return resolve();
+    }
+
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener('abort', done);
+  });
+}
@@ -0,0 +1,438 @@
+import fs from 'fs';
+import path from 'path';
+import { createHash, randomUUID } from 'crypto';
+import { BroadcastAttempt, Recipient } from './types';
+import { STDIN_PATH } from './input-formats';
+import { RunStorage } from './storage';
+import { consoleLogger, Logger } from './logger';
+import { CampaignMemo } from './memo';
+import { planBatches } from './batch-plan';
+
+export const JOURNAL_FILE = 'run-journal.json';
+
+export type BatchState = 'planned' | 'signed' | 'broadcast' | 'confirmed' | 'failed' | 'split';
+
+// Recipients sent in one transaction: a whole batch, or a part of a batch that was split
+export interface JournalSegment {
+  startIndex: number; // Index of the first recipient in the run's recipients, ordered for sending
+  recipientCount: number;
+  recipientsChecksum: string;
+  state: BatchState;
+  txHash?: string;
+  attempts?: BroadcastAttempt[]; // Every transaction signed for these recipients, oldest first
+  height?: number;
+  error?: string;
+  updatedAt: string;
+}
+
+export interface JournalBatch extends JournalSegment {
+  batchNumber: number;
+  parts?: JournalBatchPart[]; // Set once the batch is split; the parts are sent instead of the batch
+  sender?: string; // Sender account of the batch when the run is spread over several accounts
+}
+
+export interface JournalBatchPart extends JournalSegment {
+  label: string; // 3.1 is the first part of batch #3, 3.1.2 the second part of 3.1 when it was split again
+}
+
+// A part to plan when splitting a batch or part
+export interface PlannedPart {
+  label: string;
+  startIndex: number;
+  recipients: Recipient[];
+}
+
+// A sender account derived from the wallet's mnemonic
+export interface JournalSender {
+  address: string;
+  hdPath: string;
+}
+
+export interface RunJournalData {
+  version: 1;
+  runId: string;
+  inputFile: string;
+  inputChecksum: string;
+  batchSize: number;
+  senders?: JournalSender[]; // Set when batches are spread over several sender accounts
+  memo?: { campaign: string; template: string }; // Set when the transactions are tagged with a campaign memo
+  createdAt: string;
+  updatedAt: string;
+  batches: JournalBatch[];
+}
+
+/**
+ * SHA-256 checksum of a file's contents, read in chunks so large inputs are not loaded at once
+ */
+export function computeFileChecksum(filePath: string): string {
+  const hash = createHash('sha256');
+  const buffer = Buffer.alloc(1024 * 1024);
+  const fd = fs.openSync(filePath, 'r');
+
+  try {
+    let bytesRead: number;
+    while ((bytesRead = fs.readSync(fd, buffer, 0, buffer.length, null)) > 0) {
+      hash.update(buffer.subarray(0, bytesRead));
+    }
+  } finally {
+    fs.closeSync(fd);
+  }
+
+  return hash.digest('hex');
+}
+
+/**
+ * SHA-256 checksum of a list of recipients, used to detect a changed batch plan
+ */
+export function computeRecipientsChecksum(recipients: Recipient[]): string {
+  return createHash('sha256').update(JSON.stringify(recipients)).digest('hex');
+}
+
+/**
+ * Durable record of a run: the input file, the batch plan and the state of every batch.
+ * Every change is flushed to disk before the call returns, so a crashed run can be resumed.
+ */
+export class RunJournal {
+  private constructor(
+    private storage: RunStorage,
+    private data: RunJournalData
+  ) {}
+
+  /**
+   * Whether the storage has the journal of a run
+   */
+  static exists(storage: RunStorage): boolean {
+    return storage.read(JOURNAL_FILE) !== undefined;
+  }
+
+  /**
+   * Start a new journal for a run, planning batches of the given size (recipients ordered by orderForSending)
+   */
+  static create(
+    storage: RunStorage,
+    inputFile: string,
+    recipients: Recipient[],
+    batchSize: number,
+    logger: Logger = consoleLogger
+  ): RunJournal {
+    const now = new Date().toISOString();
+    const batches: JournalBatch[] = [];
+
+    for (const planned of planBatches(recipients, batchSize)) {
+      batches.push({
+        batchNumber: batches.length + 1,
+        startIndex: planned.startIndex,
+        recipientCount: planned.recipients.length,
+        recipientsChecksum: computeRecipientsChecksum(planned.recipients),
+        state: 'planned',
+        updatedAt: now
+      });
+    }
+
+    RunJournal.archive(storage, logger);
+
+    const journal = new RunJournal(storage, {
+      version: 1,
+      runId: randomUUID(),
+      inputFile: inputFile === STDIN_PATH ? inputFile : path.resolve(inputFile),
+      // Standard input cannot be read again, so its checksum covers the parsed recipients
+      inputChecksum: inputFile === STDIN_PATH ? computeRecipientsChecksum(recipients) : computeFileChecksum(inputFile),
+      batchSize,
+      createdAt: now,
+      updatedAt: now,
+      batches
+    });
+    journal.save();
+
+    return journal;
+  }
+
+  /**
+   * Move an existing journal aside (named after its run ID) so a new run does not overwrite it
+   */
+  static archive(storage: RunStorage, logger: Logger = consoleLogger): void {
+    const content = storage.read(JOURNAL_FILE);
+    if (content === undefined) {
+      return;
+    }
+
+    const { runId } = RunJournal.load(storage);
+    const archiveName = JOURNAL_FILE.replace(/\.json$/, `-${runId}.json`);
+    storage.write(archiveName, content);
+    storage.remove(JOURNAL_FILE);
+    logger.info(`Previous run journal moved to ${storage.locate(archiveName)}`);
+  }
+
+  /**
+   * Load an existing journal
+   */
+  static load(storage: RunStorage): RunJournal {
+    const content = storage.read(JOURNAL_FILE);
+    if (content === undefined) {
+      throw new Error(`Run journal not found: ${storage.locate(JOURNAL_FILE)}`);
+    }
+
+    const data = JSON.parse(content) as RunJournalData;
+    if (data.version !== 1 || !Array.isArray(data.batches)) {
+      throw new Error(`Unsupported run journal format: ${storage.locate(JOURNAL_FILE)}`);
+    }
+
+    return new RunJournal(storage, data);
+  }
+
+  get runId(): string {
+    return this.data.runId;
+  }
+
+  get inputFile(): string {
+    return this.data.inputFile;
+  }
+
+  get batchSize(): number {
+    return this.data.batchSize;
+  }
+
+  get batches(): JournalBatch[] {
+    return this.data.batches;
+  }
+
+  /**
+   * Number of batches in each state, counting the parts of a split batch instead of the batch
+   */
+  countStates(): Record<BatchState, number> {
+    const counts: Record<BatchState, number> = { planned: 0, signed: 0, broadcast: 0, confirmed: 0, failed: 0, split: 0 };
+    for (const segment of this.data.batches.flatMap<JournalSegment>(batch => batch.parts || [batch])) {
+      counts[segment.state]++;
+    }
+    return counts;
+  }
+
+  /**
+   * Hashes of the confirmed transactions of the run, in batch order
+   */
+  getTransactionHashes(): string[] {
+    return this.data.batches
+      .flatMap<JournalSegment>(batch => batch.parts || [batch])
+      .filter(segment => segment.state === 'confirmed' && segment.txHash)
+      .map(segment => segment.txHash!);
+  }
+
+  /**
+   * Label and hash of every confirmed batch or part of the run, in batch order
+   */
+  getConfirmedTransactions(): Array<{ label: string; txHash: string }> {
+    return this.data.batches
+      .flatMap(batch => batch.parts || [{ ...batch, label: String(batch.batchNumber) }])
+      .filter(segment => segment.state === 'confirmed' && segment.txHash)
+      .map(segment => ({ label: segment.label, txHash: segment.txHash! }));
+  }
+
+  get senders(): JournalSender[] {
+    return this.data.senders || [];
+  }
+
+  /**
+   * Spread the batches over sender accounts in turn: batch 1 to the first, batch 2 to the second, ...
+   */
+  assignSenders(senders: JournalSender[]): void {
+    this.data.senders = senders;
+    this.data.batches.forEach((batch, index) => {
+      batch.sender = senders[index % senders.length].address;
+    });
+    this.save();
+  }
+
+  /**
+   * Tag every transaction of the run with a memo for the campaign
+   */
+  setMemo(campaign: string, template: string): void {
+    this.data.memo = { campaign, template };
+    this.save();
+  }
+
+  /**
+   * What the memos of the run's batches are made from, or undefined when the run has no campaign
+   */
+  getCampaignMemo(): CampaignMemo | undefined {
+    return this.data.memo && { ...this.data.memo, batches: this.data.batches.length, inputChecksum: this.data.inputChecksum };
+  }
+
+  /**
+   * Throw unless the input file is unchanged since the journal was created. A run whose recipients did not
+   * come from a file (stdin, or passed in directly) checks the recipients instead.
+   */
+  assertInputUnchanged(inputFile: string, recipients: Recipient[]): void {
+    const fromFile = this.data.inputFile !== STDIN_PATH;
+    const checksum = fromFile ? computeFileChecksum(inputFile) : computeRecipientsChecksum(recipients);
+
+    if (checksum !== this.data.inputChecksum) {
+      throw new Error(
+        `${fromFile ? `Input file ${inputFile}` : 'The recipients'} changed since run ${this.data.runId} started (checksum ${checksum}, expected ${this.data.inputChecksum})`
+      );
+    }
+  }
+
+  /**
+   * Get the recipients of a planned batch, checking they still match the plan
+   */
+  getBatchRecipients(batch: JournalBatch, recipients: Recipient[]): Recipient[] {
+    return this.getSegmentRecipients(batch, String(batch.batchNumber), recipients);
+  }
+
+  /**
+   * Get the recipients of a batch part, checking they still match the plan
+   */
+  getPartRecipients(part: JournalBatchPart, recipients: Recipient[]): Recipient[] {
+    return this.getSegmentRecipients(part, part.label, recipients);
+  }
+
+  /**
+   * Recipients of every batch still to confirm, with the parts of a split batch in its place
+   */
+  getUnconfirmedSegments(recipients: Recipient[]): Recipient[][] {
+    return this.data.batches.flatMap(batch =>
+      batch.parts
+        ? batch.parts.filter(part => part.state !== 'confirmed').map(part => this.getPartRecipients(part, recipients))
+        : batch.state !== 'confirmed' ? [this.getBatchRecipients(batch, recipients)] : []
+    );
+  }
+
+  /**
+   * Get a batch by number
+   */
+  getBatch(batchNumber: number): JournalBatch {
+    const batch = this.data.batches.find(entry => entry.batchNumber === batchNumber);
+
+    if (!batch) {
+      throw new Error(`Batch #${batchNumber} is not part of run ${this.data.runId}`);
+    }
+
+    return batch;
+  }
+
+  /**
+   * Get a batch by number, or a part of a split batch by label (e.g. 3.1)
+   */
+  getSegment(label: number | string): JournalSegment {
+    const batch = this.getBatch(parseInt(String(label), 10));
+
+    if (String(label) === String(batch.batchNumber)) {
+      return batch;
+    }
+
+    const part = (batch.parts || []).find(entry => entry.label === String(label));
+    if (!part) {
+      throw new Error(`Batch #${label} is not part of run ${this.data.runId}`);
+    }
+
+    return part;
+  }
+
+  /**
+   * Replace a batch, or a part of one, with smaller parts that are sent in its place
+   */
+  splitSegment(label: number | string, parts: PlannedPart[]): void {
+    const batch = this.getBatch(parseInt(String(label), 10));
+    const now = new Date().toISOString();
+    const plannedParts: JournalBatchPart[] = parts.map(part => ({
+      label: part.label,
+      startIndex: part.startIndex,
+      recipientCount: part.recipients.length,
+      recipientsChecksum: computeRecipientsChecksum(part.recipients),
+      state: 'planned',
+      updatedAt: now
+    }));
+
+    if (String(label) === String(batch.batchNumber)) {
+      // The batch's own transactions all failed, so only its parts can confirm it
+      batch.parts = plannedParts;
+      batch.state = 'split';
+      batch.txHash = undefined;
+    } else {
+      const index = (batch.parts || []).findIndex(entry => entry.label === String(label));
+      if (index < 0) {
+        throw new Error(`Batch #${label} is not part of run ${this.data.runId}`);
+      }
+      batch.parts!.splice(index, 1, ...plannedParts);
+    }
+
+    batch.updatedAt = now;
+    this.data.updatedAt = now;
+    this.save();
+  }
+
+  /**
+   * Record the signed transaction of a batch or part, before it is broadcast
+   */
+  markSigned(label: number | string, attempt: BroadcastAttempt): void {
+    const attempts = [...(this.getSegment(label).attempts || []), attempt];
+    this.update(label, { state: 'signed', txHash: attempt.transactionHash, attempts, error: undefined });
+  }
+
+  /**
+   * Forget a signed transaction the node refused: it can never be included, so it need not be checked again
+   */
+  markRejected(label: number | string, transactionHash: string): void {
+    const attempts = (this.getSegment(label).attempts || []).filter(attempt => attempt.transactionHash !== transactionHash);
+    this.update(label, { attempts });
+  }
+
+  /**
+   * Record that a batch's or part's transaction was accepted by the node
+   */
+  markBroadcast(label: number | string): void {
+    this.update(label, { state: 'broadcast' });
+  }
+
+  /**
+   * Record that a batch's or part's transaction was included in a block.
+   * A split batch is confirmed once all of its parts are.
+   */
+  markConfirmed(label: number | string, txHash: string, height?: number): void {
+    this.update(label, { state: 'confirmed', txHash, height, error: undefined });
+
+    const batch = this.getBatch(parseInt(String(label), 10));
+    if (batch.parts && batch.parts.every(part => part.state === 'confirmed')) {
+      this.update(batch.batchNumber, { state: 'confirmed', error: undefined });
+    }
+  }
+
+  /**
+   * Record that a batch or part failed
+   */
+  markFailed(label: number | string, error: string): void {
+    this.update(label, { state: 'failed', error });
+  }
+
+  /**
+   * Slice a segment's recipients out of the run's recipients and check them against the plan
+   */
+  private getSegmentRecipients(segment: JournalSegment, label: string, recipients: Recipient[]): Recipient[] {
+    const segmentRecipients = recipients.slice(segment.startIndex, segment.startIndex + segment.recipientCount);
+
+    if (computeRecipientsChecksum(segmentRecipients) !== segment.recipientsChecksum) {
+      throw new Error(`Recipients of batch #${label} do not match the run journal`);
+    }
+
+    return segmentRecipients;
+  }
+
+  /**
+   * Update a batch or part and flush the journal
+   */
+  private update(label: number | string, changes: Partial<JournalSegment>): void {
+    const segment = this.getSegment(label);
+    const now = new Date().toISOString();
+
+    Object.assign(segment, changes, { updatedAt: now });
+    this.data.updatedAt = now;
+    this.save();
+  }
+
+  /**
+   * Write the journal atomically (a file storage fsyncs a temp file and renames it over the journal)
+   */
+  private save(): void {
+    this.storage.write(JOURNAL_FILE, JSON.stringify(this.data, null, 2));
+  }
+}
@@ -0,0 +1,460 @@
+import { decodeTxRaw } from '@cosmjs/proto-signing';
+import { Coin, DelegationConfig, Recipient, WalletConfig, ZigchainConfig } from './types';
+import { WalletService } from './wallet';
+import { MultiSendService } from './multisend';
+import { BatchProcessor } from './batch-processor';
+import { FailedBatchRetrier } from './retry-failed-batches';
+import { BatchState, JOURNAL_FILE, RunJournal } from './run-journal';
+import { RecipientStatus, ResultsReport } from './results-report';
+import { SenderPool } from './sender-pool';
+import { MSG_MULTI_SEND_TYPE_URL, MSG_SEND_TYPE_URL, preflightDelegation } from './authz';
+import { addCoinLists, getRecipientCoins, sumRecipientCoins } from './coins';
+import { readFailedBatches } from './failed-batches';
+import { STDIN_PATH } from './input-formats';
+import { PreflightError, RunCancelledError } from './errors';
+import { RunEventEmitter } from './events';
+import { Logger } from './logger';
+import { RunStorage } from './storage';
+import { createRunContext, RunContext } from './run-context';
+import { ChainBackend, createRpcBackend } from './chain-backend';
+import { describeShortfalls, formatRunPlan, planPayer, RunPlan } from './funds-preflight';
+import { orderForSending, planBatches } from './batch-plan';
+import { CampaignMemo, CampaignTransaction, DEFAULT_MEMO_TEMPLATE, findCampaignTransactions, formatMemo, MemoOptions, validateMemoTemplate } from './memo';
+
+export interface MultiSendRunnerOptions {
+  network: ZigchainConfig;
+  wallet: WalletConfig; // A mnemonic, private key, keystore key or injected signer
+  delegation?: DelegationConfig;
+  logger?: Logger; // Defaults to the console
+  storage?: RunStorage; // Defaults to files in the working directory
+  backend?: ChainBackend; // Defaults to the network's RPC endpoints; a SimulatedChain runs without a network
+}
+
+export interface RunOptions {
+  inputFile?: string; // File the recipients were read from, checked when resuming (otherwise the recipients are)
+  batchSize?: number;
+  maxRetries?: number;
+  retryDelay?: number; // Base delay in ms before retrying a network error, doubled on every retry
+  minBatchSize?: number; // Batches that are too big are split down to this size
+  maxInFlight?: number; // More than 1 pipelines transactions
+  resume?: boolean; // Continue the run in the journal instead of starting a new one
+  senders?: string[]; // HD paths of sender accounts to spread the batches over (see parseSenderAccounts)
+  memo?: MemoOptions; // Tag every transaction with the campaign; a resumed run keeps the memo it started with
+  signal?: AbortSignal; // Once aborted, no new batch is sent and the run resolves as cancelled
+}
+
+// completed: every batch is confirmed; incomplete: some batches failed or are unconfirmed
+export type RunStatus = 'completed' | 'incomplete' | 'cancelled';
+
+export interface RunResult {
+  runId: string;
+  status: RunStatus;
+  transactions: string[]; // Hashes of the confirmed transactions, in batch order
+  batches: Record<BatchState, number>;
+  recipients: Record<RecipientStatus, number>;
+  failedBatches: number; // Batches waiting for a retry
+  plan: RunPlan; // What the run was expected to send and spend when it started
+}
+
+export interface RetryOptions {
+  batch?: string; // A batch number, or a part label such as 3.2; every failed batch when omitted
+  maxRetries?: number;
+  signal?: AbortSignal;
+}
+
+export interface RetryResult {
+  succeeded: number;
+  failed: number;
+  cancelled: boolean;
+}
+
+// State of the last run, from its journal and results
+export interface RunState {
+  runId: string;
+  inputFile: string;
+  senders: number;
+  batches: Record<BatchState, number>;
+  failedBatches: number;
+  recipients: Record<RecipientStatus, number>;
+}
+
+/**
+ * Runs a distribution from code: `new MultiSendRunner({ network, wallet }).run(recipients)`.
+ * Progress goes to the logger and as typed events (`runner.on('batchConfirmed', ...)`), records go to
+ * the storage, and nothing exits the process: errors are thrown and outcomes returned.
+ */
+export class MultiSendRunner extends RunEventEmitter {
+  private walletService: WalletService;
+  private multiSendService: MultiSendService;
+  private context: RunContext;
+
+  constructor(private options: MultiSendRunnerOptions) {
+    super();
+    this.context = createRunContext({ logger: options.logger, storage: options.storage, events: this });
+    this.walletService = new WalletService(
+      options.wallet,
+      options.network,
+      options.backend || createRpcBackend(options.network, this.context.logger)
+    );
+    this.multiSendService = new MultiSendService(this.walletService, options.network, options.delegation, this.context.logger);
+  }
+
+  /**
+   * Address of the wallet that signs the transactions
+   */
+  getSenderAddress(): Promise<string> {
+    return this.walletService.getAddress();
+  }
+
+  /**
+   * Address whose funds are sent: the authz granter when there is one, otherwise the wallet's own
+   */
+  getFundingAddress(): Promise<string> {
+    return this.multiSendService.getFundingAddress();
+  }
+
+  /**
+   * The funding address's balance of each denom, and of the fee denom, in base units
+   */
+  getBalances(denoms: string[]): Promise<Map<string, bigint>> {
+    return this.multiSendService.getBalances(denoms);
+  }
+
+  /**
+   * Send the recipients in batches, journalling every step so the run can be resumed.
+   * Throws PreflightError before sending anything when the grants or spendable balances do not cover
+   * the whole run, and RunAbortedError when an error would fail every later batch too.
+   */
+  async run(recipients: Recipient[], options: RunOptions = {}): Promise<RunResult> {
+    const context = { ...this.context, signal: options.signal };
+    const { logger, storage } = context;
+    const { network, delegation = {} } = this.options;
+
+    if (recipients.length === 0) {
+      throw new Error('No recipients to send to');
+    }
+    if (delegation.granter && options.senders && options.senders.length > 0) {
+      throw new Error('Sender accounts cannot be used with an authz granter, the granter funds every batch');
+    }
+    const memoOptions = options.memo && { campaign: options.memo.campaign, template: options.memo.template || DEFAULT_MEMO_TEMPLATE };
+    if (memoOptions) {
+      if (!memoOptions.campaign) {
+        throw new Error('The campaign of a memo cannot be empty');
+      }
+      validateMemoTemplate(memoOptions.template);
+    }
+    // Rows with a memo of their own are sent last, in batches of their own
+    recipients = orderForSending(recipients);
+
+    // The previous run's journal when resuming; a new run only gets one once the preflight has passed
+    let journal: RunJournal | null = null;
+    let batchSize = options.batchSize ?? 400;
+    if (options.resume) {
+      journal = RunJournal.load(storage);
+      journal.assertInputUnchanged(options.inputFile || journal.inputFile, recipients);
+      batchSize = journal.batchSize;
+
+      const startedWith = journal.getCampaignMemo();
+      if (memoOptions && (memoOptions.campaign !== startedWith?.campaign || memoOptions.template !== startedWith?.template)) {
+        throw new Error(
+          `Run ${journal.runId} was started ${startedWith ? `for campaign "${startedWith.campaign}" with the memo "${startedWith.template}"` : 'without a memo'}, ` +
+          'resume it with the same campaign and memo'
+        );
+      }
+    }
+
+    // Spread the batches over sender accounts derived from the mnemonic; a resumed run keeps its senders
+    const senderPaths = journal ? journal.senders.map(sender => sender.hdPath) : options.senders || [];
+    const senderPool = senderPaths.length > 0 ? await SenderPool.derive(this.walletService, network, senderPaths, logger) : null;
+    if (journal && senderPool) {
+      senderPool.assertCovers(journal);
+    }
+
+    // Check that the grants and balances cover everything still to be sent before sending any of it
+    const pendingBatches = journal
+      ? journal.getUnconfirmedSegments(recipients)
+      : planBatches(orderForSending(recipients), batchSize).map(batch => batch.recipients);
+    // Only the length of the input checksum matters before the journal has it
+    const memo = journal
+      ? journal.getCampaignMemo()
+      : memoOptions && { ...memoOptions, batches: pendingBatches.length, inputChecksum: '0'.repeat(64) };
+    const plan = await this.preflight(pendingBatches, senderPool, memo, logger);
+
+    if (journal) {
+      logger.info(`\nResuming run ${journal.runId} from ${storage.locate(JOURNAL_FILE)}`);
+    } else {
+      journal = RunJournal.create(storage, options.inputFile || STDIN_PATH, recipients, batchSize, logger);
+      logger.info(`\nStarted run ${journal.runId}, journal: ${storage.locate(JOURNAL_FILE)}`);
+      if (senderPool) {
+        journal.assignSenders(senderPool.senders);
+      }
+      if (memoOptions) {
+        journal.setMemo(memoOptions.campaign, memoOptions.template);
+      }
+    }
+    const campaignMemo = journal.getCampaignMemo();
+    if (campaignMemo) {
+      logger.info(`Tagging transactions with the memo "${formatMemo(campaignMemo, '1')}", ...`);
+    }
+    if (senderPool) {
+      logger.info(`Sending from ${senderPool.accounts.length} sender accounts in parallel`);
+    }
+
+    // Per-recipient results: a resumed run keeps updating the report of the run it continues
+    const results = options.resume ? ResultsReport.load(storage) : ResultsReport.create(storage);
+
+    const maxRetries = options.maxRetries ?? 3;
+    const retryDelay = options.retryDelay ?? 5000;
+    logger.info(`Using batch size: ${batchSize}, max retries: ${maxRetries}, retry delay: ${retryDelay}ms`);
+    const batchProcessor = new BatchProcessor(
+      batchSize,
+      maxRetries,
+      retryDelay,
+      network.denomUnits,
+      options.minBatchSize ?? 10,
+      options.maxInFlight ?? 1,
+      context,
+      campaignMemo
+    );
+
+    logger.info(`\nProcessing recipients in batches of ${batchSize}...`);
+
+    let cancelled = false;
+    try {
+      if (senderPool) {
+        await senderPool.fund(journal, recipients, network.denom);
+        await senderPool.processBatches(batchProcessor, recipients, network.denom, journal, results);
+        await senderPool.sweep(journal);
+      } else {
+        await batchProcessor.processBatches(this.multiSendService, await this.getSenderAddress(), recipients, network.denom, journal, results);
+      }
+    } catch (error) {
+      if (!(error instanceof RunCancelledError)) {
+        throw error;
+      }
+      logger.info(`\nRun ${journal.runId} cancelled. Continue it later by resuming the run.`);
+      cancelled = true;
+    }
+
+    const batches = journal.countStates();
+    const unconfirmed = batches.planned + batches.signed + batches.broadcast + batches.failed;
+    const result: RunResult = {
+      runId: journal.runId,
+      status: cancelled ? 'cancelled' : unconfirmed > 0 ? 'incomplete' : 'completed',
+      transactions: journal.getTransactionHashes(),
+      batches,
+      recipients: results.countStatuses(),
+      failedBatches: readFailedBatches(storage).length,
+      plan
+    };
+
+    this.emit('runCompleted', result);
+    return result;
+  }
+
+  /**
+   * Retry failed batches of earlier runs, all of them or one batch (or part)
+   */
+  async retry(options: RetryOptions = {}): Promise<RetryResult> {
+    const context = { ...this.context, signal: options.signal };
+    const retrier = new FailedBatchRetrier(this.walletService, this.options.network, this.options.delegation, context);
+    const maxRetries = options.maxRetries ?? 3;
+
+    try {
+      if (options.batch) {
+        const success = await retrier.retryBatch(options.batch, maxRetries);
+        return { succeeded: success ? 1 : 0, failed: success ? 0 : 1, cancelled: false };
+      }
+
+      const { success, failed } = await retrier.retryAllBatches(maxRetries);
+      return { succeeded: success, failed, cancelled: false };
+    } catch (error) {
+      if (!(error instanceof RunCancelledError)) {
+        throw error;
+      }
+      context.logger.info('\nRetry cancelled');
+      return { succeeded: 0, failed: 0, cancelled: true };
+    }
+  }
+
+  /**
+   * State of the last run, or null when there is no run journal
+   */
+  getState(): RunState | null {
+    const { storage } = this.context;
+    if (!RunJournal.exists(storage)) {
+      return null;
+    }
+
+    const journal = RunJournal.load(storage);
+    return {
+      runId: journal.runId,
+      inputFile: journal.inputFile,
+      senders: journal.senders.length,
+      batches: journal.countStates(),
+      failedBatches: readFailedBatches(storage).length,
+      recipients: ResultsReport.load(storage).countStatuses()
+    };
+  }
+
+  /**
+   * Find a campaign's transactions on chain by their memos, oldest first. They are looked for among those
+   * signed by the given addresses, by default the wallet and the last run's sender accounts.
+   * When the last run was the campaign, its journal adds the transactions whose memo is a recipient's own.
+   */
+  async findCampaign(memoOptions: MemoOptions, signers?: string[]): Promise<CampaignTransaction[]> {
+    const template = memoOptions.template || DEFAULT_MEMO_TEMPLATE;
+    validateMemoTemplate(template);
+
+    const { storage } = this.context;
+    const journal = RunJournal.exists(storage) ? RunJournal.load(storage) : null;
+    if (!signers) {
+      signers = [await this.getSenderAddress(), ...(journal ? journal.senders.map(sender => sender.address) : [])];
+    }
+
+    const client = await this.walletService.backend.connect();
+    const found = await findCampaignTransactions(client, signers, template, memoOptions.campaign);
+    if (journal?.getCampaignMemo()?.campaign !== memoOptions.campaign) {
+      return found;
+    }
+
+    // Batches of recipients with a memo carry it instead of the campaign memo, so they are looked up by hash
+    const hashes = new Set(found.map(tx => tx.hash));
+    for (const { label, txHash } of journal.getConfirmedTransactions().filter(entry => !hashes.has(entry.txHash))) {
+      const tx = await client.getTx(txHash);
+      if (tx) {
+        found.push({ hash: tx.hash, height: tx.height, code: tx.code, memo: decodeTxRaw(tx.tx).body.memo, batch: label });
+      }
+    }
+
+    return found.sort((a, b) => a.height - b.height);
+  }
+
+  /**
+   * Work out what the batches still to send will cost and who pays for it, and log it as the run's plan.
+   * Throws PreflightError when the memo is too long for the chain, or the grants or the spendable
+   * balances do not cover all of it.
+   */
+  private async preflight(
+    batches: Recipient[][],
+    senderPool: SenderPool | null,
+    memo: CampaignMemo | undefined,
+    logger: Logger
+  ): Promise<RunPlan> {
+    const { network, delegation = {} } = this.options;
+    const pendingRecipients = batches.flat();
+    const amounts = sumRecipientCoins(pendingRecipients, network.denom);
+
+    // The last batch has the longest number; parts of split batches are checked by the chain as they are sent.
+    // Recipients with a memo of their own are sent with it instead.
+    const longestMemo = memo ? formatMemo(memo, String(memo.batches)) : '';
+    const rowMemos = new Set(pendingRecipients.filter(recipient => recipient.memo).map(recipient => recipient.memo!));
+    const memos = [...(longestMemo ? [longestMemo] : []), ...rowMemos];
+    if (memos.length > 0) {
+      const maxMemoCharacters = await this.multiSendService.getMaxMemoCharacters();
+      const tooLong = memos.filter(text => text.length > maxMemoCharacters);
+      if (tooLong.length > 0) {
+        throw new PreflightError(
+          tooLong.length === 1 ? 'The memo is too long for this chain' : 'Memos are too long for this chain',
+          tooLong.map(text => `"${text}" has ${text.length} characters, the chain allows ${maxMemoCharacters}`)
+        );
+      }
+    }
+
+    // Fees are only estimated once the grants check out, since simulating needs a working grant
+    let fees: Promise<Coin[]> | null = null;
+    const estimateFees = () => (fees = fees || this.estimateFees(batches, senderPool, longestMemo));
+
+    if (delegation.granter || delegation.feeGranter) {
+      logger.info('\nChecking grants...');
+      const problems = batches.length === 0 ? [] : await preflightDelegation(
+        this.walletService.backend,
+        delegation,
+        await this.getSenderAddress(),
+        amounts,
+        pendingRecipients.map(recipient => recipient.address),
+        rowMemos.size > 0 ? [MSG_MULTI_SEND_TYPE_URL, MSG_SEND_TYPE_URL] : [MSG_MULTI_SEND_TYPE_URL],
+        estimateFees,
+        logger
+      );
+
+      if (problems.length > 0) {
+        throw new PreflightError('The grants do not cover this run', problems);
+      }
+    }
+
+    let plannedFees: Coin[];
+    try {
+      plannedFees = batches.length === 0 ? [] : await estimateFees();
+    } catch (error) {
+      throw new PreflightError('The fees of this run could not be estimated', [error instanceof Error ? error.message : String(error)]);
+    }
+
+    // Who pays what: the amounts come from the funding address and the fees from the signer, unless granted.
+    // Sender accounts are funded from the main account, so what they already hold counts too.
+    const sender = await this.getSenderAddress();
+    const feesPaidBySender = delegation.feeGranter ? [] : plannedFees;
+    const payers: Array<{ description: string; addresses: string[]; needed: Coin[] }> = [];
+    if (delegation.granter) {
+      payers.push({ description: `${delegation.granter} (authz granter) pays the amounts`, addresses: [delegation.granter], needed: amounts });
+      if (feesPaidBySender.length > 0) {
+        payers.push({ description: `${sender} pays the fees`, addresses: [sender], needed: feesPaidBySender });
+      }
+    } else {
+      const addresses = [sender, ...(senderPool ? senderPool.accounts.map(account => account.address) : [])];
+      const description = senderPool
+        ? `${sender} and ${senderPool.accounts.length} sender accounts pay the amounts${feesPaidBySender.length > 0 ? ' and fees' : ''}`
+        : `${sender} pays the amounts${feesPaidBySender.length > 0 ? ' and fees' : ''}`;
+      payers.push({ description, addresses, needed: addCoinLists(amounts, feesPaidBySender) });
+    }
+
+    const plan: RunPlan = {
+      batches: batches.length,
+      recipients: pendingRecipients.length,
+      amounts,
+      fees: plannedFees,
+      payers: []
+    };
+    for (const payer of payers) {
+      const balances = await Promise.all(payer.addresses.map(address => this.multiSendService.getSpendableBalances(address)));
+      plan.payers.push(planPayer(payer.description, payer.needed, balances.flat()));
+    }
+
+    formatRunPlan(plan, network.denomUnits).forEach(line => logger.info(line));
+
+    const shortfalls = describeShortfalls(plan, network.denomUnits);
+    if (shortfalls.length > 0) {
+      throw new PreflightError('The spendable balance does not cover this run', shortfalls);
+    }
+    return plan;
+  }
+
+  /**
+   * Estimated fees of sending these batches with the longest memo of the run, or their recipients' own memo,
+   * plus funding the sender accounts. Batches with as many outputs and coins cost the same, so each shape
+   * is simulated once.
+   */
+  private async estimateFees(batches: Recipient[][], senderPool: SenderPool | null, memo: string): Promise<Coin[]> {
+    const { denom } = this.options.network;
+    const feesByShape = new Map<string, Coin[]>();
+    const fees: Coin[][] = [];
+
+    for (const batch of batches) {
+      const batchMemo = batch[0].memo || memo;
+      const shape = `${batch[0].memo ? 'send' : 'multi-send'}/${batchMemo.length}/${batch.length}/` +
+        `${batch.reduce((count, recipient) => count + getRecipientCoins(recipient, denom).length, 0)}`;
+      if (!feesByShape.has(shape)) {
+        feesByShape.set(shape, [...(await this.multiSendService.estimateFee(batch, batchMemo)).amount]);
+      }
+      fees.push(feesByShape.get(shape)!);
+    }
+
+    // Funding the senders is one MultiSend from the main account with an output per sender
+    if (senderPool && batches.length > 0) {
+      const fundings = senderPool.accounts.map(account => ({ address: account.address, amount: '1' }));
+      fees.push([...(await this.multiSendService.estimateFee(fundings)).amount]);
+    }
+
+    return addCoinLists(...fees);
+  }
+}
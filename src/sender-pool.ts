@@ -0,0 +1,208 @@
+import { pathToString } from '@cosmjs/crypto';
+import { makeCosmoshubPath } from '@cosmjs/proto-signing';
+import { Coin, Recipient, ZigchainConfig } from './types';
+import { WalletService } from './wallet';
+import { MultiSendService } from './multisend';
+import { BatchProcessor } from './batch-processor';
+import { JournalSender, RunJournal } from './run-journal';
+import { ResultsReport } from './results-report';
+import { addCoinLists, formatCoins, sumRecipientCoins } from './coins';
+import { consoleLogger, Logger } from './logger';
+
+// Each sender is funded with this many times the estimated fee per batch, to cover retries and splits
+const FEE_RESERVE_FACTOR = 2n;
+
+/**
+ * Parse the sender accounts to derive: a count such as `4` (account indices 1 to 4), account indices
+ * such as `1,2,7`, or HD paths such as `m/44'/118'/0'/0/1,m/44'/118'/0'/0/2`.
+ * Account index 0 is the main account, which funds the senders.
+ * @returns The HD path of each sender account
+ */
+export function parseSenderAccounts(value: string): string[] {
+  const entries = value.split(',').map(entry => entry.trim()).filter(Boolean);
+
+  if (entries.length === 1 && /^\d+$/.test(entries[0])) {
+    const count = parseInt(entries[0], 10);
+    if (count < 1) {
+      throw new Error('The number of sender accounts must be at least 1');
+    }
+    return Array.from({ length: count }, (_, index) => pathToString(makeCosmoshubPath(index + 1)));
+  }
+
+  return entries.map(entry => {
+    if (/^\d+$/.test(entry)) {
+      return pathToString(makeCosmoshubPath(parseInt(entry, 10)));
+    }
+    if (!/^m(\/\d+'?)+$/.test(entry)) {
+      throw new Error(`Invalid sender account "${entry}", use an account index or an HD path like m/44'/118'/0'/0/1`);
+    }
+    return entry;
+  });
+}
+
+export interface SenderAccount {
+  address: string;
+  hdPath: string;
+  multiSendService: MultiSendService;
+}
+
+/**
+ * Sender accounts derived from the wallet's mnemonic. The main account funds them before a run,
+ * each sends its share of the batches in parallel with its own account sequence, and whatever
+ * they have left is swept back to the main account afterwards.
+ */
+export class SenderPool {
+  private constructor(
+    private mainAddress: string,
+    private mainService: MultiSendService,
+    readonly accounts: SenderAccount[],
+    private networkConfig: ZigchainConfig,
+    private logger: Logger
+  ) {}
+
+  /**
+   * Derive the sender accounts at the given HD paths from the main wallet's mnemonic
+   */
+  static async derive(
+    walletService: WalletService,
+    networkConfig: ZigchainConfig,
+    hdPaths: string[],
+    logger: Logger = consoleLogger
+  ): Promise<SenderPool> {
+    const mainAddress = await walletService.getAddress();
+    const accounts: SenderAccount[] = [];
+
+    for (const hdPath of new Set(hdPaths)) {
+      const senderWallet = walletService.deriveAccount(hdPath);
+      const address = await senderWallet.getAddress();
+
+      if (address === mainAddress) {
+        throw new Error(`HD path ${hdPath} is the main account, which funds the senders and cannot be one of them`);
+      }
+
+      accounts.push({ address, hdPath, multiSendService: new MultiSendService(senderWallet, networkConfig, {}, logger) });
+    }
+
+    return new SenderPool(mainAddress, new MultiSendService(walletService, networkConfig, {}, logger), accounts, networkConfig, logger);
+  }
+
+  get senders(): JournalSender[] {
+    return this.accounts.map(({ address, hdPath }) => ({ address, hdPath }));
+  }
+
+  /**
+   * Throw unless the pool has every sender account that the journal assigned batches to
+   */
+  assertCovers(journal: RunJournal): void {
+    const missing = journal.senders.filter(sender => !this.accounts.some(account => account.address === sender.address));
+
+    if (missing.length > 0) {
+      throw new Error(
+        `Run ${journal.runId} sends from ${missing.map(sender => `${sender.address} (${sender.hdPath})`).join(', ')}, ` +
+        'which are not among the configured sender accounts'
+      );
+    }
+  }
+
+  /**
+   * Top up every sender with what its unconfirmed batches send, plus a reserve for fees,
+   * in a single MultiSend from the main account
+   */
+  async fund(journal: RunJournal, recipients: Recipient[], denom: string): Promise<void> {
+    const pendingBatches = journal.batches.filter(batch => batch.state !== 'confirmed');
+    if (pendingBatches.length === 0) {
+      return;
+    }
+
+    // Batches are about the same size, so the first one's fee stands for all of them
+    const feePerBatch = await this.mainService.estimateFee(journal.getBatchRecipients(pendingBatches[0], recipients));
+    const fundings: Recipient[] = [];
+
+    this.logger.info('\nFunding sender accounts:');
+    for (const account of this.accounts) {
+      const batches = pendingBatches.filter(batch => batch.sender === account.address);
+      if (batches.length === 0) {
+        continue;
+      }
+
+      const feeReserve = feePerBatch.amount.map(coin => ({
+        denom: coin.denom,
+        amount: (BigInt(coin.amount) * BigInt(batches.length) * FEE_RESERVE_FACTOR).toString()
+      }));
+      const needed = addCoinLists(
+        ...batches.map(batch => sumRecipientCoins(journal.getBatchRecipients(batch, recipients), denom)),
+        feeReserve
+      );
+
+      const balances = await account.multiSendService.getBalances(needed.map(coin => coin.denom));
+      const topUp: Coin[] = needed
+        .map(coin => ({ denom: coin.denom, amount: (BigInt(coin.amount) - (balances.get(coin.denom) || 0n)).toString() }))
+        .filter(coin => BigInt(coin.amount) > 0n);
+
+      this.logger.info(
+        `   ${account.address} (${account.hdPath}): ${batches.length} batches, ` +
+        (topUp.length > 0 ? `sending ${formatCoins(topUp, this.networkConfig.denomUnits)}` : 'already funded')
+      );
+
+      if (topUp.length > 0) {
+        fundings.push({ address: account.address, amount: topUp.map(coin => `${coin.amount}${coin.denom}`).join(','), coins: topUp });
+      }
+    }
+
+    if (fundings.length === 0) {
+      return;
+    }
+
+    const result = await this.mainService.executeMultiSend(fundings);
+    this.logger.info(`Sender accounts funded: ${result.transactionHash}`);
+  }
+
+  /**
+   * Send every sender's batches, all senders in parallel.
+   * Throws the first error once every sender has stopped.
+   */
+  async processBatches(
+    batchProcessor: BatchProcessor,
+    recipients: Recipient[],
+    denom: string,
+    journal: RunJournal,
+    results?: ResultsReport
+  ): Promise<string[]> {
+    const outcomes = await Promise.allSettled(this.accounts.map(account =>
+      batchProcessor.processBatches(account.multiSendService, account.address, recipients, denom, journal, results)
+    ));
+
+    const failure = outcomes.find((outcome): outcome is PromiseRejectedResult => outcome.status === 'rejected');
+    if (failure) {
+      throw failure.reason;
+    }
+
+    return outcomes.flatMap(outcome => (outcome.status === 'fulfilled' ? outcome.value : []));
+  }
+
+  /**
+   * Send what the senders have left back to the main account. With a journal, a sender that still has
+   * unconfirmed batches keeps its balance, so they can be retried or resumed from it.
+   */
+  async sweep(journal?: RunJournal): Promise<void> {
+    this.logger.info(`\nSweeping sender accounts back to ${this.mainAddress}:`);
+
+    for (const account of this.accounts) {
+      const unconfirmed = (journal?.batches || []).filter(batch => batch.sender === account.address && batch.state !== 'confirmed');
+      if (unconfirmed.length > 0) {
+        this.logger.info(
+          `   ${account.address}: keeping its balance for batches ${unconfirmed.map(batch => `#${batch.batchNumber}`).join(', ')}, ` +
+          'which are not confirmed (sweep later with: npm start -- sweep)'
+        );
+        continue;
+      }
+
+      try {
+        const result = await account.multiSendService.sweep(this.mainAddress);
+        this.logger.info(`   ${account.address}: ${result ? `swept (${result.transactionHash})` : 'nothing left to sweep'}`);
+      } catch (error) {
+        this.logger.error(`   ${account.address}: could not sweep:`, error instanceof Error ? error.message : error);
+      }
+    }
+  }
+}
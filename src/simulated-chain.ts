@@ -0,0 +1,522 @@
+import { encodeSecp256k1Pubkey, pubkeyToAddress, Pubkey, rawSecp256k1PubkeyToRawAddress } from '@cosmjs/amino';
+import { Secp256k1, Secp256k1Signature, sha256 } from '@cosmjs/crypto';
+import { toBech32, toHex } from '@cosmjs/encoding';
+import { EncodeObject, makeSignBytes, makeSignDoc, OfflineSigner, Registry } from '@cosmjs/proto-signing';
+import {
+  Account,
+  BroadcastTxError,
+  Coin,
+  defaultRegistryTypes,
+  IndexedTx,
+  SequenceResponse,
+  SignerData,
+  SigningStargateClient,
+  StdFee,
+  TimeoutError
+} from '@cosmjs/stargate';
+import { MsgMultiSend, MsgSend } from 'cosmjs-types/cosmos/bank/v1beta1/tx';
+import { PubKey } from 'cosmjs-types/cosmos/crypto/secp256k1/keys';
+import { AuthInfo, TxBody, TxRaw } from 'cosmjs-types/cosmos/tx/v1beta1/tx';
+import { Grant } from 'cosmjs-types/cosmos/authz/v1beta1/authz';
+import { Any } from 'cosmjs-types/google/protobuf/any';
+import { ChainBackend, ChainClient, ChainTiming, SigningChainClient } from './chain-backend';
+import { MSG_MULTI_SEND_TYPE_URL, MSG_SEND_TYPE_URL } from './authz';
+
+// Blocks are made as soon as the chain is asked about them, so there is little to wait for
+export const SIMULATED_TIMING: ChainTiming = {
+  pollIntervalMs: 10,
+  confirmationTimeoutMs: 250,
+  batchPauseMs: 0,
+  failurePauseMs: 0
+};
+
+// Gas charged for a transaction, and for every output or MsgSend in it
+const BASE_GAS = 60000;
+const GAS_PER_OUTPUT = 20000;
+
+/**
+ * Something going wrong with one broadcast:
+ * - timeout: the broadcast request times out and the node never gets the transaction
+ * - sequence-mismatch: CheckTx refuses the transaction as if its sequence had just been used
+ * - out-of-gas: the transaction is included in a block but runs out of gas, costing its fee and sequence
+ * - included-after-timeout: the transaction stays in the mempool until the sender's sequence is next queried,
+ *   long after the wait for it has timed out, and is only then included
+ */
+export type SimulatedFault = 'timeout' | 'sequence-mismatch' | 'out-of-gas' | 'included-after-timeout';
+
+export const SIMULATED_FAULTS: SimulatedFault[] = ['timeout', 'sequence-mismatch', 'out-of-gas', 'included-after-timeout'];
+
+export interface SimulatedChainOptions {
+  chainId: string;
+  prefix?: string; // Bech32 prefix of the chain's addresses, zig by default
+  maxOutputsPerTx?: number; // CheckTx refuses bigger transactions as too large
+  maxMemoCharacters?: number; // Of the auth module's parameters, 256 by default
+}
+
+interface SimulatedAccount {
+  accountNumber: number;
+  sequence: number;
+  pubkey: Uint8Array | null;
+  balances: Map<string, bigint>;
+  locked: Map<string, bigint>; // Part of the balance that cannot be spent, like unvested coins
+}
+
+// A transfer made by a message, from one address to another
+interface Transfer {
+  from: string;
+  to: string;
+  coins: Coin[];
+}
+
+interface DecodedTx {
+  signer: string;
+  pubkey: Uint8Array;
+  sequence: number;
+  fee: Coin[];
+  gasLimit: number;
+  memo: string;
+  transfers: Transfer[];
+}
+
+interface MempoolTx {
+  hash: string;
+  bytes: Uint8Array;
+  tx: DecodedTx;
+  held: boolean; // Not included until the sender's sequence is queried
+  outOfGas: boolean;
+}
+
+/**
+ * An in-process chain that keeps balances, account sequences, fees and gas the way a Cosmos SDK chain does,
+ * for runs and tests without a network. Only bank sends (MsgMultiSend and MsgSend) are supported, and no account
+ * has an authz grant or a fee allowance.
+ * Transactions wait in a mempool and are included in a block the next time the chain is queried.
+ */
+export class SimulatedChain implements ChainBackend {
+  readonly timing = SIMULATED_TIMING;
+  readonly chainId: string;
+  private prefix: string;
+  private maxOutputsPerTx: number;
+  private maxMemoCharacters: number;
+  private registry = new Registry(defaultRegistryTypes);
+  private accounts = new Map<string, SimulatedAccount>();
+  private mempool: MempoolTx[] = [];
+  private txs = new Map<string, IndexedTx>();
+  private faults = new Map<number, SimulatedFault>();
+  private broadcasts = 0;
+  private height = 1;
+
+  constructor(options: SimulatedChainOptions) {
+    this.chainId = options.chainId;
+    this.prefix = options.prefix || 'zig';
+    this.maxOutputsPerTx = options.maxOutputsPerTx ?? Infinity;
+    this.maxMemoCharacters = options.maxMemoCharacters ?? 256;
+  }
+
+  /**
+   * Credit coins to an address, creating its account if needed
+   */
+  fund(address: string, coins: Coin[]): void {
+    const account = this.getOrCreateAccount(address);
+    for (const coin of coins) {
+      account.balances.set(coin.denom, (account.balances.get(coin.denom) ?? 0n) + BigInt(coin.amount));
+    }
+  }
+
+  /**
+   * Lock part of an address's balance, as a vesting account does: it counts in the balance but cannot be spent
+   */
+  lock(address: string, coins: Coin[]): void {
+    const account = this.getOrCreateAccount(address);
+    for (const coin of coins) {
+      account.locked.set(coin.denom, (account.locked.get(coin.denom) ?? 0n) + BigInt(coin.amount));
+    }
+  }
+
+  /**
+   * Balance of an address in base units, as of the last block
+   */
+  balanceOf(address: string, denom: string): bigint {
+    return this.accounts.get(address)?.balances.get(denom) ?? 0n;
+  }
+
+  /**
+   * Make a broadcast go wrong: the given broadcast, counted from 1 over the chain's lifetime, or the next one
+   */
+  injectFault(fault: SimulatedFault, broadcast: number = this.broadcasts + 1): void {
+    this.faults.set(broadcast, fault);
+  }
+
+  /**
+   * Number of broadcasts the chain has received, including refused ones
+   */
+  get broadcastCount(): number {
+    return this.broadcasts;
+  }
+
+  /**
+   * Every transaction included in a block, failed ones too, in the order they were included
+   */
+  get transactions(): IndexedTx[] {
+    return [...this.txs.values()];
+  }
+
+  connect(): Promise<ChainClient> {
+    return Promise.resolve(this.createClient());
+  }
+
+  async connectWithSigner(signer: OfflineSigner): Promise<SigningChainClient> {
+    const offline = await SigningStargateClient.offline(signer);
+
+    return {
+      ...this.createClient(),
+      simulate: async (signerAddress, messages) => this.simulate(signerAddress, messages),
+      sign: async (signerAddress, messages, fee: StdFee, memo: string, explicitSignerData?: SignerData) => {
+        const signerData = explicitSignerData || { ...(await this.getSequence(signerAddress)), chainId: this.chainId };
+        return offline.sign(signerAddress, messages, fee, memo, signerData);
+      }
+    };
+  }
+
+  async getSpendableBalances(address: string): Promise<Coin[]> {
+    this.produceBlock();
+    return [...(this.accounts.get(address)?.balances ?? [])]
+      .map(([denom, amount]) => ({ denom, amount: this.spendable(address, denom, amount) }))
+      .filter(coin => coin.amount > 0n)
+      .map(coin => ({ denom: coin.denom, amount: coin.amount.toString() }));
+  }
+
+  async getMaxMemoCharacters(): Promise<number> {
+    return this.maxMemoCharacters;
+  }
+
+  async getGrants(): Promise<Grant[]> {
+    return [];
+  }
+
+  async getFeeAllowance(): Promise<Any | null> {
+    return null;
+  }
+
+  async simulateForAccount(pubkey: Pubkey, sequence: number, messages: readonly EncodeObject[]): Promise<number> {
+    return this.simulate(pubkeyToAddress(pubkey, this.prefix), messages);
+  }
+
+  /**
+   * Gas the messages would use, throwing like a node when they cannot be delivered
+   */
+  private simulate(signerAddress: string, messages: readonly EncodeObject[]): number {
+    this.produceBlock();
+    const transfers = messages.map(message => this.registry.encodeAsAny(message)).flatMap(any => this.decodeMessage(any));
+    const problem = this.checkTransfers(signerAddress, transfers);
+    if (problem) {
+      throw new Error(`Simulation failed: ${problem.log}`);
+    }
+    return this.gasFor(transfers);
+  }
+
+  private spendable(address: string, denom: string, balance: bigint = this.balanceOf(address, denom)): bigint {
+    const locked = this.accounts.get(address)?.locked.get(denom) ?? 0n;
+    return balance > locked ? balance - locked : 0n;
+  }
+
+  private createClient(): ChainClient {
+    return {
+      getChainId: async () => this.chainId,
+      getAccount: async address => this.getAccount(address),
+      getSequence: address => this.getSequence(address),
+      getBalance: async (address, denom) => {
+        this.produceBlock();
+        return { denom, amount: this.balanceOf(address, denom).toString() };
+      },
+      getAllBalances: async address => {
+        this.produceBlock();
+        return [...(this.accounts.get(address)?.balances ?? [])]
+          .filter(([, amount]) => amount > 0n)
+          .map(([denom, amount]) => ({ denom, amount: amount.toString() }));
+      },
+      getTx: async id => {
+        this.produceBlock();
+        return this.txs.get(id.toUpperCase()) ?? null;
+      },
+      searchTx: async query => {
+        this.produceBlock();
+        return this.searchTx(query);
+      },
+      broadcastTxSync: async tx => this.broadcastTxSync(tx),
+      disconnect: () => undefined
+    };
+  }
+
+  private getAccount(address: string): Account | null {
+    this.releaseHeld(address);
+    const account = this.accounts.get(address);
+    if (!account) {
+      return null;
+    }
+
+    return {
+      address,
+      pubkey: account.pubkey ? encodeSecp256k1Pubkey(account.pubkey) : null,
+      accountNumber: account.accountNumber,
+      sequence: account.sequence
+    };
+  }
+
+  private async getSequence(address: string): Promise<SequenceResponse> {
+    const account = this.getAccount(address);
+    if (!account) {
+      throw new Error('Account does not exist on chain. Send some tokens there before trying to query sequence.');
+    }
+    return { accountNumber: account.accountNumber, sequence: account.sequence };
+  }
+
+  /**
+   * Included transactions signed by an address. Only the message.sender='<address>' query is supported.
+   */
+  private searchTx(query: string): IndexedTx[] {
+    const sender = /^message\.sender='([^']+)'$/.exec(query)?.[1];
+    if (!sender) {
+      throw new Error(`The simulated chain cannot search for ${query}`);
+    }
+    return this.transactions.filter(tx => this.decodeTx(tx.tx).signer === sender);
+  }
+
+  /**
+   * CheckTx: accept a transaction into the mempool, or throw BroadcastTxError like a node would
+   */
+  private async broadcastTxSync(bytes: Uint8Array): Promise<string> {
+    const tx = this.decodeTx(bytes);
+    const signatureValid = await this.verifySignature(bytes, tx);
+
+    this.produceBlock();
+    const broadcast = ++this.broadcasts;
+    const fault = this.faults.get(broadcast);
+    this.faults.delete(broadcast);
+    const hash = toHex(sha256(bytes)).toUpperCase();
+
+    if (fault === 'timeout') {
+      throw new TimeoutError(`Broadcasting transaction ${hash} timed out`, hash);
+    }
+    if (this.txs.has(hash) || this.mempool.some(pending => pending.hash === hash)) {
+      throw new BroadcastTxError(19, 'sdk', 'tx already exists in cache');
+    }
+
+    const account = this.accounts.get(tx.signer);
+    if (!account) {
+      throw new BroadcastTxError(9, 'sdk', `account ${tx.signer} not found: unknown address`);
+    }
+
+    // Sequences of transactions still in the mempool count as used, so several can be in flight
+    const expected = account.sequence + this.mempool.filter(pending => pending.tx.signer === tx.signer).length;
+    if (fault === 'sequence-mismatch' || tx.sequence !== expected) {
+      const used = fault === 'sequence-mismatch' ? expected + 1 : expected;
+      throw new BroadcastTxError(32, 'sdk', `account sequence mismatch, expected ${used}, got ${tx.sequence}: incorrect account sequence`);
+    }
+    if (!signatureValid) {
+      throw new BroadcastTxError(
+        4,
+        'sdk',
+        `signature verification failed; please verify account number (${account.accountNumber}), sequence (${tx.sequence}) and chain-id (${this.chainId}): unauthorized`
+      );
+    }
+
+    if (tx.memo.length > this.maxMemoCharacters) {
+      throw new BroadcastTxError(12, 'sdk', `maximum number of characters is ${this.maxMemoCharacters} but received ${tx.memo.length} characters: memo too large`);
+    }
+
+    const outputs = tx.transfers.length;
+    if (outputs > this.maxOutputsPerTx) {
+      throw new BroadcastTxError(21, 'sdk', `tx with ${outputs} outputs is over the limit of ${this.maxOutputsPerTx}: tx too large`);
+    }
+
+    // The fee is taken at CheckTx, so the mempool's fees are already spoken for
+    for (const coin of tx.fee) {
+      const pendingFees = this.mempool
+        .filter(pending => pending.tx.signer === tx.signer)
+        .flatMap(pending => pending.tx.fee)
+        .filter(pendingCoin => pendingCoin.denom === coin.denom)
+        .reduce((sum, pendingCoin) => sum + BigInt(pendingCoin.amount), 0n);
+      const spendable = this.spendable(tx.signer, coin.denom) - pendingFees;
+      if (spendable < BigInt(coin.amount)) {
+        throw new BroadcastTxError(5, 'sdk', `spendable balance ${spendable}${coin.denom} is smaller than ${coin.amount}${coin.denom}: insufficient funds`);
+      }
+    }
+
+    this.mempool.push({ hash, bytes, tx, held: fault === 'included-after-timeout', outOfGas: fault === 'out-of-gas' });
+    return hash;
+  }
+
+  /**
+   * Include every mempool transaction whose sequence is next for its sender in a new block
+   */
+  private produceBlock(): void {
+    const included: MempoolTx[] = [];
+    let progress = true;
+
+    while (progress) {
+      progress = false;
+      for (const pending of this.mempool) {
+        if (!pending.held && !included.includes(pending) && pending.tx.sequence === this.accounts.get(pending.tx.signer)!.sequence) {
+          this.deliverTx(pending, included.length);
+          included.push(pending);
+          progress = true;
+        }
+      }
+    }
+
+    if (included.length > 0) {
+      this.mempool = this.mempool.filter(pending => !included.includes(pending));
+      this.height++;
+    }
+  }
+
+  /**
+   * DeliverTx: the fee and sequence are always taken, the transfers only when the transaction succeeds
+   */
+  private deliverTx(pending: MempoolTx, txIndex: number): void {
+    const { tx } = pending;
+    const account = this.accounts.get(tx.signer)!;
+
+    for (const coin of tx.fee) {
+      account.balances.set(coin.denom, account.balances.get(coin.denom)! - BigInt(coin.amount));
+    }
+    account.sequence++;
+    account.pubkey = account.pubkey || tx.pubkey;
+
+    let gasUsed = this.gasFor(tx.transfers);
+    let code = 0;
+    let rawLog = '';
+    if (pending.outOfGas || gasUsed > tx.gasLimit) {
+      rawLog = `out of gas in location: WriteFlat; gasWanted: ${tx.gasLimit}, gasUsed: ${Math.max(gasUsed, tx.gasLimit + 1)}: out of gas`;
+      code = 11;
+      gasUsed = tx.gasLimit;
+    } else {
+      const problem = this.checkTransfers(tx.signer, tx.transfers);
+      if (problem) {
+        ({ code, log: rawLog } = problem);
+      } else {
+        for (const transfer of tx.transfers) {
+          for (const coin of transfer.coins) {
+            const from = this.accounts.get(transfer.from)!;
+            from.balances.set(coin.denom, from.balances.get(coin.denom)! - BigInt(coin.amount));
+          }
+          this.fund(transfer.to, transfer.coins);
+        }
+      }
+    }
+
+    this.txs.set(pending.hash, {
+      height: this.height,
+      txIndex,
+      hash: pending.hash,
+      code,
+      events: [],
+      rawLog,
+      tx: pending.bytes,
+      msgResponses: [],
+      gasUsed: BigInt(gasUsed),
+      gasWanted: BigInt(tx.gasLimit)
+    });
+  }
+
+  /**
+   * Why the transfers cannot be made from the signer's balances, or null when they can
+   */
+  private checkTransfers(signer: string, transfers: Transfer[]): { code: number; log: string } | null {
+    const spent = new Map<string, bigint>();
+
+    for (const transfer of transfers) {
+      if (transfer.from !== signer) {
+        return { code: 4, log: `${signer} cannot send the funds of ${transfer.from}: unauthorized` };
+      }
+      for (const coin of transfer.coins) {
+        const total = (spent.get(coin.denom) ?? 0n) + BigInt(coin.amount);
+        spent.set(coin.denom, total);
+        const spendable = this.spendable(signer, coin.denom);
+        if (spendable < total) {
+          return { code: 5, log: `spendable balance ${spendable}${coin.denom} is smaller than ${total}${coin.denom}: insufficient funds` };
+        }
+      }
+    }
+
+    return null;
+  }
+
+  private gasFor(transfers: Transfer[]): number {
+    return BASE_GAS + GAS_PER_OUTPUT * transfers.length;
+  }
+
+  /**
+   * Release the sender's transactions held back by an included-after-timeout fault, and include them
+   */
+  private releaseHeld(address: string): void {
+    this.mempool.filter(pending => pending.tx.signer === address).forEach(pending => (pending.held = false));
+    this.produceBlock();
+  }
+
+  private decodeTx(bytes: Uint8Array): DecodedTx {
+    try {
+      const raw = TxRaw.decode(bytes);
+      const body = TxBody.decode(raw.bodyBytes);
+      const authInfo = AuthInfo.decode(raw.authInfoBytes);
+      const [signerInfo] = authInfo.signerInfos;
+      const pubkey = PubKey.decode(signerInfo.publicKey!.value).key;
+
+      return {
+        signer: toBech32(this.prefix, rawSecp256k1PubkeyToRawAddress(pubkey)),
+        pubkey,
+        sequence: Number(signerInfo.sequence),
+        fee: authInfo.fee?.amount ?? [],
+        gasLimit: Number(authInfo.fee?.gasLimit ?? 0n),
+        memo: body.memo,
+        transfers: body.messages.flatMap(message => this.decodeMessage(message))
+      };
+    } catch (error) {
+      if (error instanceof BroadcastTxError) {
+        throw error;
+      }
+      throw new BroadcastTxError(2, 'sdk', `${error instanceof Error ? error.message : error}: tx parse error`);
+    }
+  }
+
+  private decodeMessage(message: { typeUrl: string; value: Uint8Array }): Transfer[] {
+    if (message.typeUrl === MSG_MULTI_SEND_TYPE_URL) {
+      const { inputs, outputs } = MsgMultiSend.decode(message.value);
+      if (inputs.length !== 1) {
+        throw new BroadcastTxError(10, 'sdk', 'multiple senders not allowed: invalid coins');
+      }
+      return outputs.map(output => ({ from: inputs[0].address, to: output.address, coins: output.coins }));
+    }
+
+    if (message.typeUrl === MSG_SEND_TYPE_URL) {
+      const { fromAddress, toAddress, amount } = MsgSend.decode(message.value);
+      return [{ from: fromAddress, to: toAddress, coins: amount }];
+    }
+
+    throw new BroadcastTxError(2, 'sdk', `${message.typeUrl} is not supported by the simulated chain: tx parse error`);
+  }
+
+  /**
+   * Whether the transaction is signed by its signer for this chain and the signer's account number
+   */
+  private async verifySignature(bytes: Uint8Array, tx: DecodedTx): Promise<boolean> {
+    const account = this.accounts.get(tx.signer);
+    const raw = TxRaw.decode(bytes);
+    if (!account || raw.signatures.length !== 1) {
+      return false;
+    }
+
+    const signBytes = makeSignBytes(makeSignDoc(raw.bodyBytes, raw.authInfoBytes, this.chainId, account.accountNumber));
+    return Secp256k1.verifySignature(Secp256k1Signature.fromFixedLength(raw.signatures[0]), sha256(signBytes), tx.pubkey);
+  }
+
+  private getOrCreateAccount(address: string): SimulatedAccount {
+    let account = this.accounts.get(address);
+    if (!account) {
+      account = { accountNumber: this.accounts.size, sequence: 0, pubkey: null, balances: new Map(), locked: new Map() };
+      this.accounts.set(address, account);
+    }
+    return account;
+  }
+}
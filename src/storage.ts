@@ -0,0 +1,82 @@
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * Where a run keeps its records (journal, results, failed batches and transaction hashes), by file name
+ */
+export interface RunStorage {
+  read(name: string): string | undefined;
+  write(name: string, content: string): void; // Replaces the content atomically
+  append(name: string, content: string): void;
+  remove(name: string): void;
+  locate(name: string): string; // Where a record is kept, for messages
+}
+
+/**
+ * Records kept as files in a directory (by default the working directory)
+ */
+export class FileStorage implements RunStorage {
+  constructor(private dir: string = process.cwd()) {}
+
+  read(name: string): string | undefined {
+    const filePath = this.locate(name);
+    return fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf8') : undefined;
+  }
+
+  /**
+   * Write a temp file, fsync it, then rename it over the file, so a crash never leaves half a file
+   */
+  write(name: string, content: string): void {
+    const filePath = this.locate(name);
+    const tempPath = `${filePath}.tmp`;
+    const fd = fs.openSync(tempPath, 'w');
+
+    try {
+      fs.writeSync(fd, content);
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+
+    fs.renameSync(tempPath, filePath);
+  }
+
+  append(name: string, content: string): void {
+    fs.appendFileSync(this.locate(name), content, 'utf8');
+  }
+
+  remove(name: string): void {
+    fs.rmSync(this.locate(name), { force: true });
+  }
+
+  locate(name: string): string {
+    return path.join(this.dir, name);
+  }
+}
+
+/**
+ * Records kept in memory, for embedding the tool where a run leaves no files behind
+ */
+export class MemoryStorage implements RunStorage {
+  private records = new Map<string, string>();
+
+  read(name: string): string | undefined {
+    return this.records.get(name);
+  }
+
+  write(name: string, content: string): void {
+    this.records.set(name, content);
+  }
+
+  append(name: string, content: string): void {
+    this.records.set(name, (this.records.get(name) || '') + content);
+  }
+
+  remove(name: string): void {
+    this.records.delete(name);
+  }
+
+  locate(name: string): string {
+    return `memory:${name}`;
+  }
+}
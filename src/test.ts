@@ -1,70 +1,565 @@
-import { validateConfig, walletConfig, zigchainConfig, getRecipientsFromCsv, csvFilePath } from './config';
-import { WalletService } from './wallet';
-import { MultiSendService } from './multisend';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { Readable } from 'node:stream';
+import { toBech32 } from '@cosmjs/encoding';
+import { decodeTxRaw, DirectSecp256k1HdWallet } from '@cosmjs/proto-signing';
+import { TxRaw } from 'cosmjs-types/cosmos/tx/v1beta1/tx';
+import { MultiSendRunner, RunOptions } from './runner';
+import { SimulatedChain, SimulatedChainOptions } from './simulated-chain';
+import { MemoryStorage } from './storage';
+import { silentLogger } from './logger';
+import { PreflightError } from './errors';
+import { assertChainId, ChainIdMismatchError } from './networks';
+import { RpcEndpointPool } from './rpc-endpoints';
+import { ColumnMapping, Recipient, ZigchainConfig } from './types';
+import { readCsvRows } from './csv-reader';
+import { readJsonLinesRows, readJsonRows } from './json-reader';
+import { DEFAULT_COLUMNS } from './input-formats';
+import { formatValidationReport, RecipientRow, validateRecipientRows, ValidationOptions } from './validation';
+import { toBaseUnits } from './amounts';
+import { parseCommandLine, UsageError } from './cli';
 
 /**
- * This script tests the MultiSend functionality without actually sending a transaction
- * It's useful for verifying your configuration and seeing what the transaction would look like
+ * End-to-end tests of the send pipeline against a chain simulated in memory, and of RPC failover against
+ * fake nodes on localhost, followed by tests of reading and validating the input and of the command line. No network is used, and the runs keep their records in memory, so nothing is
+ * written to the working directory (checked by a test below).
+ * Run with: npm test
  */
-async function testMultiSend() {
-  try {
-    // Validate configuration
-    if (!(await validateConfig())) {
-      process.exit(1);
-    }
-    
-    // Load recipients from CSV file
-    const recipients = await getRecipientsFromCsv(csvFilePath);
-    
-    // Verify we have recipients
-    if (recipients.length === 0) {
-      console.error('Error: No recipients found in CSV file');
-      process.exit(1);
+
+// A well-known test mnemonic, never to be funded on a real chain
+const MNEMONIC = 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+
+const network: ZigchainConfig = {
+  network: 'simulated',
+  rpcUrl: 'http://127.0.0.1:1', // Never connected to
+  chainId: 'zig-sim-1',
+  prefix: 'zig',
+  denom: 'uzig',
+  feeDenom: 'uzig',
+  gasPrice: '0.025uzig',
+  gasMultiplier: 1.3,
+  denomUnits: {}
+};
+
+// Fast retries, and batches down to one recipient when splitting
+const FAST: RunOptions = { retryDelay: 1, minBatchSize: 1 };
+
+function makeRecipients(count: number): Recipient[] {
+  return Array.from({ length: count }, (_, index) => ({
+    address: toBech32('zig', new Uint8Array(20).fill(index + 1)),
+    amount: String(1000 + index)
+  }));
+}
+
+interface Setup {
+  chain: SimulatedChain;
+  runner: MultiSendRunner;
+  storage: MemoryStorage;
+  sender: string;
+  recipients: Recipient[];
+}
+
+/**
+ * A simulated chain with the sender funded for the recipients plus fees, and a runner that keeps its records in memory
+ */
+async function setup(recipientCount: number, chainOptions: Partial<SimulatedChainOptions> = {}, funds = 10_000_000n): Promise<Setup> {
+  const chain = new SimulatedChain({ chainId: network.chainId, ...chainOptions });
+  const storage = new MemoryStorage();
+  const runner = new MultiSendRunner({ network, wallet: { mnemonic: MNEMONIC }, backend: chain, storage, logger: silentLogger });
+  const sender = await runner.getSenderAddress();
+  chain.fund(sender, [{ denom: 'uzig', amount: funds.toString() }]);
+
+  return { chain, runner, storage, sender, recipients: makeRecipients(recipientCount) };
+}
+
+/**
+ * Every recipient got its amount exactly once, and the sender paid the amounts and the fee of every transaction
+ */
+function assertPaidOnce({ chain, sender, recipients }: Setup, funds = 10_000_000n): void {
+  for (const recipient of recipients) {
+    assert.equal(chain.balanceOf(recipient.address, 'uzig'), BigInt(recipient.amount), `${recipient.address} was not paid exactly once`);
+  }
+
+  const sent = recipients.reduce((sum, recipient) => sum + BigInt(recipient.amount), 0n);
+  const fees = chain.transactions
+    .map(tx => tx.gasWanted * 25n / 1000n) // Fees round up, so allow for that below
+    .reduce((sum, fee) => sum + fee, 0n);
+  const spent = funds - chain.balanceOf(sender, 'uzig');
+  assert.ok(spent >= sent + fees && spent <= sent + fees + BigInt(chain.transactions.length), `Sender spent ${spent}, expected ${sent} plus ${fees} in fees`);
+}
+
+test('sends every batch and charges a fee for each transaction', async () => {
+  const context = await setup(7);
+  const result = await context.runner.run(context.recipients, { ...FAST, batchSize: 3 });
+
+  assert.equal(result.status, 'completed');
+  assert.equal(result.transactions.length, 3);
+  assert.equal(result.recipients.success, 7);
+  assert.equal(context.chain.transactions.length, 3);
+  assert.ok(context.chain.transactions.every(tx => tx.code === 0));
+  assertPaidOnce(context);
+});
+
+test('re-signs with the queried sequence after a sequence mismatch', async () => {
+  const context = await setup(6);
+  context.chain.injectFault('sequence-mismatch', 2);
+  const result = await context.runner.run(context.recipients, { ...FAST, batchSize: 2 });
+
+  assert.equal(result.status, 'completed');
+  assert.equal(context.chain.broadcastCount, 4);
+  assertPaidOnce(context);
+});
+
+test('resends a transaction whose broadcast timed out before reaching the node', async () => {
+  const context = await setup(6);
+  context.chain.injectFault('timeout', 1);
+  context.chain.injectFault('timeout', 2);
+  const result = await context.runner.run(context.recipients, { ...FAST, batchSize: 3 });
+
+  assert.equal(result.status, 'completed');
+  assert.equal(context.chain.transactions.length, 2);
+  assertPaidOnce(context);
+});
+
+test('does not resend a transaction that is included after its wait timed out', async () => {
+  const context = await setup(6);
+  context.chain.injectFault('included-after-timeout', 2);
+  const result = await context.runner.run(context.recipients, { ...FAST, batchSize: 2 });
+
+  assert.equal(result.status, 'completed');
+  assert.equal(context.chain.broadcastCount, 3, 'the batch that timed out was broadcast again');
+  assertPaidOnce(context);
+});
+
+test('splits a batch that runs out of gas and sends the parts', async () => {
+  const context = await setup(8);
+  context.chain.injectFault('out-of-gas', 1);
+  const result = await context.runner.run(context.recipients, { ...FAST, batchSize: 4 });
+
+  assert.equal(result.status, 'completed');
+  assert.equal(context.chain.transactions.filter(tx => tx.code === 11).length, 1);
+  // The second batch is split up front to the size that worked
+  assert.equal(result.transactions.length, 4);
+  assertPaidOnce(context);
+});
+
+test('splits batches the node refuses as too large', async () => {
+  const context = await setup(9, { maxOutputsPerTx: 2 });
+  const result = await context.runner.run(context.recipients, { ...FAST, batchSize: 4 });
+
+  assert.equal(result.status, 'completed');
+  assert.ok(context.chain.transactions.every(tx => tx.code === 0));
+  assertPaidOnce(context);
+});
+
+test('settles every fault with several transactions in flight', async () => {
+  const context = await setup(12);
+  context.chain.injectFault('included-after-timeout', 2);
+  context.chain.injectFault('sequence-mismatch', 4);
+  context.chain.injectFault('timeout', 5);
+  const result = await context.runner.run(context.recipients, { ...FAST, batchSize: 2, maxInFlight: 3 });
+
+  assert.equal(result.status, 'completed');
+  assert.equal(result.recipients.success, 12);
+  assertPaidOnce(context);
+});
+
+test('records a batch that cannot be split as failed, and a retry sends it', async () => {
+  const context = await setup(6);
+  context.chain.injectFault('out-of-gas', 2);
+  const result = await context.runner.run(context.recipients, { retryDelay: 1, minBatchSize: 3, batchSize: 3 });
+
+  assert.equal(result.status, 'incomplete');
+  assert.equal(result.failedBatches, 1);
+  assert.equal(result.recipients.failed, 3);
+
+  const retried = await context.runner.retry();
+  assert.deepEqual(retried, { succeeded: 1, failed: 0, cancelled: false });
+  assert.equal(context.runner.getState()!.recipients.success, 6);
+  assertPaidOnce(context);
+});
+
+test('a failed batch is paid once whether it is resumed or retried first', async () => {
+  for (const resumeFirst of [true, false]) {
+    const context = await setup(6);
+    context.chain.injectFault('out-of-gas', 2);
+    const options: RunOptions = { retryDelay: 1, minBatchSize: 3, batchSize: 3 };
+    await context.runner.run(context.recipients, options);
+
+    if (resumeFirst) {
+      assert.equal((await context.runner.run(context.recipients, { ...options, resume: true })).status, 'completed');
+      assert.deepEqual(await context.runner.retry(), { succeeded: 0, failed: 0, cancelled: false });
+    } else {
+      assert.deepEqual(await context.runner.retry(), { succeeded: 1, failed: 0, cancelled: false });
+      assert.equal((await context.runner.run(context.recipients, { ...options, resume: true })).status, 'completed');
     }
 
-    console.log('Zigchain MultiSend Test Mode');
-    console.log('--------------------------');
-    console.log(`Chain ID: ${zigchainConfig.chainId}`);
-    console.log(`RPC URL: ${zigchainConfig.rpcUrl}`);
-    console.log(`Token Denomination: ${zigchainConfig.denom}`);
-    
-    // Initialize wallet service
-    const walletService = new WalletService(walletConfig, zigchainConfig);
-    const senderAddress = await walletService.getAddress();
-    console.log(`\nSender Address: ${senderAddress}`);
-    
-    // Get wallet balance
-    const balance = await walletService.getBalance();
-    console.log(`Balance: ${balance} ${zigchainConfig.denom}`);
-    
-    // Initialize MultiSend service
-    const multiSendService = new MultiSendService(walletService, zigchainConfig);
-    
-    // Display recipients
-    console.log('\nRecipients:');
-    recipients.forEach((recipient, index) => {
-      console.log(`${index + 1}. ${recipient.address} - ${recipient.amount} ${zigchainConfig.denom}`);
+    const state = context.runner.getState()!;
+    assert.equal(state.batches.confirmed, 2);
+    assert.equal(state.failedBatches, 0);
+    assertPaidOnce(context);
+  }
+});
+
+test('a run with in-memory storage writes nothing to the working directory', async () => {
+  const listing = () => fs.readdirSync(process.cwd()).map(name => `${name} ${fs.statSync(name).mtimeMs}`).sort();
+  const before = listing();
+
+  const context = await setup(6);
+  context.chain.injectFault('out-of-gas', 2);
+  await context.runner.run(context.recipients, { retryDelay: 1, minBatchSize: 3, batchSize: 3 });
+  await context.runner.retry();
+
+  assert.ok(context.storage.read('transaction-hashes.txt'), 'the hashes were not kept in memory');
+  assert.deepEqual(listing(), before);
+});
+
+test('plans the amounts and fees of every batch before sending', async () => {
+  const context = await setup(5);
+  const result = await context.runner.run(context.recipients, { ...FAST, batchSize: 2 });
+
+  const { plan } = result;
+  assert.equal(plan.batches, 3);
+  assert.equal(plan.recipients, 5);
+  assert.deepEqual(plan.amounts, [{ denom: 'uzig', amount: '5010' }]);
+  // Every batch is sent as planned, so the estimated fees are the fees paid
+  const paidFees = 10_000_000n - 5010n - context.chain.balanceOf(context.sender, 'uzig');
+  assert.equal(BigInt(plan.fees[0].amount), paidFees);
+  assert.equal(plan.payers.length, 1);
+  assert.equal(BigInt(plan.payers[0].left[0].amount), context.chain.balanceOf(context.sender, 'uzig'));
+});
+
+test('refuses to start when the balance covers the amounts but not the fees', async () => {
+  const context = await setup(4, {}, 5000n);
+
+  await assert.rejects(context.runner.run(context.recipients, { ...FAST, batchSize: 2 }), (error: unknown) => {
+    assert.ok(error instanceof PreflightError);
+    assert.match(error.problems[0], /short by/);
+    return true;
+  });
+  assert.equal(context.chain.broadcastCount, 0);
+  assert.equal(context.runner.getState(), null, 'a refused run must not start a journal');
+});
+
+test('leaves locked coins out of the spendable balance', async () => {
+  const context = await setup(4);
+  context.chain.lock(context.sender, [{ denom: 'uzig', amount: '9999000' }]);
+
+  await assert.rejects(context.runner.run(context.recipients, { ...FAST, batchSize: 2 }), PreflightError);
+  assert.equal(context.chain.broadcastCount, 0);
+});
+
+test('tags every transaction with the campaign memo and finds them by it', async () => {
+  const context = await setup(5);
+  context.chain.injectFault('out-of-gas', 2);
+  const result = await context.runner.run(context.recipients, { ...FAST, batchSize: 2, memo: { campaign: 'airdrop-q4' } });
+
+  assert.equal(result.status, 'completed');
+  assert.deepEqual(
+    context.chain.transactions.filter(tx => tx.code === 0).map(tx => decodeTxRaw(tx.tx).body.memo),
+    ['multisend:airdrop-q4 batch 1/3', 'multisend:airdrop-q4 batch 2.1/3', 'multisend:airdrop-q4 batch 2.2/3', 'multisend:airdrop-q4 batch 3/3']
+  );
+
+  const found = await context.runner.findCampaign({ campaign: 'airdrop-q4' });
+  assert.deepEqual(found.filter(tx => tx.code === 0).map(tx => tx.batch), ['1', '2.1', '2.2', '3']);
+  assert.deepEqual(await context.runner.findCampaign({ campaign: 'airdrop' }), []);
+});
+
+test('refuses a memo longer than the chain allows before sending', async () => {
+  const context = await setup(4, { maxMemoCharacters: 20 });
+
+  await assert.rejects(context.runner.run(context.recipients, { ...FAST, batchSize: 2, memo: { campaign: 'airdrop-q4' } }), PreflightError);
+  assert.equal(context.chain.broadcastCount, 0);
+});
+
+test('sends recipients with a memo as MsgSend transactions carrying their memo', async () => {
+  const context = await setup(7);
+  const [first, second, third] = context.recipients;
+  context.recipients = [
+    { ...first, memo: 'deposit-1' },
+    second,
+    { ...third, memo: 'deposit-2' },
+    ...context.recipients.slice(3, 6),
+    { ...context.recipients[6], memo: 'deposit-1' }
+  ];
+  const result = await context.runner.run(context.recipients, { ...FAST, batchSize: 2, memo: { campaign: 'airdrop-q4' } });
+
+  assert.equal(result.status, 'completed');
+  const sent = context.chain.transactions.map(tx => decodeTxRaw(tx.tx).body);
+  assert.deepEqual(sent.map(body => body.memo), ['multisend:airdrop-q4 batch 1/4', 'multisend:airdrop-q4 batch 2/4', 'deposit-1', 'deposit-2']);
+  assert.deepEqual(sent.map(body => body.messages.map(message => message.typeUrl.split('.').pop())), [
+    ['MsgMultiSend'], ['MsgMultiSend'], ['MsgSend', 'MsgSend'], ['MsgSend']
+  ]);
+  assert.match(context.storage.read('transaction-hashes.txt')!, /Batch #4 \| 1 recipients \| Hash: /);
+  // The campaign's own memos are found on chain, the recipients' memos through the run journal
+  const found = await context.runner.findCampaign({ campaign: 'airdrop-q4' });
+  assert.deepEqual(found.map(tx => [tx.batch, tx.memo]), [
+    ['1', 'multisend:airdrop-q4 batch 1/4'], ['2', 'multisend:airdrop-q4 batch 2/4'], ['3', 'deposit-1'], ['4', 'deposit-2']
+  ]);
+  assertPaidOnce(context);
+});
+
+test('a cancelled run resumes without paying anyone twice', async () => {
+  const context = await setup(8);
+  const controller = new AbortController();
+  context.runner.once('batchConfirmed', () => controller.abort());
+
+  const cancelled = await context.runner.run(context.recipients, { ...FAST, batchSize: 2, signal: controller.signal });
+  assert.equal(cancelled.status, 'cancelled');
+  assert.equal(cancelled.transactions.length, 1);
+
+  const resumed = await context.runner.run(context.recipients, { ...FAST, resume: true });
+  assert.equal(resumed.runId, cancelled.runId);
+  assert.equal(resumed.status, 'completed');
+  assert.equal(resumed.transactions.length, 4);
+  assertPaidOnce(context);
+});
+
+test('refuses a node on another chain', async () => {
+  const chain = new SimulatedChain({ chainId: 'other-chain-1' });
+
+  await assert.rejects(assertChainId(network, chain), ChainIdMismatchError);
+  await assertChainId({ ...network, chainId: 'other-chain-1' }, chain);
+});
+
+test('the simulated chain refuses a transaction signed for another chain', async () => {
+  const chain = new SimulatedChain({ chainId: network.chainId });
+  const wallet = await DirectSecp256k1HdWallet.fromMnemonic(MNEMONIC, { prefix: 'zig' });
+  const [{ address }] = await wallet.getAccounts();
+  chain.fund(address, [{ denom: 'uzig', amount: '1000000' }]);
+
+  const client = await chain.connectWithSigner(wallet);
+  const message = { typeUrl: '/cosmos.bank.v1beta1.MsgSend', value: { fromAddress: address, toAddress: makeRecipients(1)[0].address, amount: [{ denom: 'uzig', amount: '1' }] } };
+  const fee = { amount: [{ denom: 'uzig', amount: '5000' }], gas: '200000' };
+  const txRaw = await client.sign(address, [message], fee, '', { accountNumber: 0, sequence: 0, chainId: 'other-chain-1' });
+
+  await assert.rejects(client.broadcastTxSync(TxRaw.encode(txRaw).finish()), /signature verification failed/);
+  assert.equal(chain.balanceOf(address, 'uzig'), 1000000n);
+});
+
+interface FakeNode {
+  url: string;
+  requests: number;
+  close(): Promise<void>;
+}
+
+/**
+ * A local HTTP server that answers every JSON-RPC request with a node status
+ */
+async function startFakeNode(height: number, catchingUp = false, chainId = network.chainId): Promise<FakeNode> {
+  const server = http.createServer((request, response) => {
+    let body = '';
+    request.on('data', chunk => (body += chunk));
+    request.on('end', () => {
+      node.requests++;
+      const { id } = JSON.parse(body);
+      response.setHeader('Content-Type', 'application/json');
+      response.end(JSON.stringify({
+        jsonrpc: '2.0',
+        id,
+        result: {
+          node_info: { network: chainId, version: '0.38.12' },
+          sync_info: { latest_block_height: String(height), catching_up: catchingUp }
+        }
+      }));
     });
-    
-    // Calculate total amount
-    const totalAmount = recipients.reduce(
-      (sum, recipient) => sum + BigInt(recipient.amount),
-      BigInt(0)
-    );
-    console.log(`\nTotal amount to send: ${totalAmount} ${zigchainConfig.denom}`);
-    
-    // Create MultiSend transaction (but don't send it)
-    const multiSendTx = await multiSendService.createMultiSendTx(recipients);
-    
-    console.log('\nTransaction Preview:');
-    console.log(JSON.stringify(multiSendTx, null, 2));
-    
-    console.log('\nTest completed successfully. To send the actual transaction, run: npm start');
-  } catch (error) {
-    console.error('Error:', error);
-    process.exit(1);
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+  const node: FakeNode = {
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    requests: 0,
+    close: () => new Promise(resolve => server.close(() => resolve()))
+  };
+  return node;
+}
+
+const statusRequest = { jsonrpc: '2.0' as const, id: 1, method: 'status', params: {} };
+
+test('skips RPC endpoints that are down, catching up, behind or on another chain', async () => {
+  const nodes = await Promise.all([startFakeNode(100, true), startFakeNode(90), startFakeNode(100, false, 'other-chain-1'), startFakeNode(99)]);
+  const pool = new RpcEndpointPool(['http://127.0.0.1:1', ...nodes.map(node => node.url)], {
+    chainId: network.chainId,
+    maxBlockLag: 5,
+    requestsPerSecond: 0,
+    logger: silentLogger
+  });
+
+  try {
+    const health = await pool.checkHealth();
+    assert.deepEqual(health.map(endpoint => endpoint.healthy), [false, false, false, false, true]);
+    assert.equal(health[1].problem, 'catching up');
+    assert.equal(health[2].problem, '10 blocks behind');
+    assert.equal(pool.currentUrl, nodes[3].url);
+  } finally {
+    await Promise.all(nodes.map(node => node.close()));
+  }
+});
+
+test('fails over to the next RPC endpoint when the current one stops answering', async () => {
+  const [first, second] = await Promise.all([startFakeNode(100), startFakeNode(100)]);
+  const pool = new RpcEndpointPool([first.url, second.url], { requestsPerSecond: 0, logger: silentLogger });
+
+  try {
+    await pool.execute(statusRequest);
+    assert.equal(pool.currentUrl, first.url);
+
+    await first.close();
+    await pool.execute(statusRequest);
+    assert.equal(pool.currentUrl, second.url);
+    assert.equal(second.requests, 2, 'the health check and the request that failed over');
+  } finally {
+    await second.close();
   }
+});
+
+test('rate limits the requests to each RPC endpoint', async () => {
+  const node = await startFakeNode(100);
+  const pool = new RpcEndpointPool([node.url], { requestsPerSecond: 20, logger: silentLogger });
+
+  try {
+    const startedAt = Date.now();
+    await Promise.all(Array.from({ length: 5 }, () => pool.execute(statusRequest)));
+    // The first request goes at once, the other four 50 ms apart
+    assert.ok(Date.now() - startedAt >= 195, `5 requests took ${Date.now() - startedAt} ms`);
+  } finally {
+    await node.close();
+  }
+});
+
+// Base units of uzig, with ZIG as its display unit
+const VALIDATION: ValidationOptions = {
+  prefix: 'zig',
+  defaultDenom: 'uzig',
+  duplicatePolicy: 'reject',
+  amountUnit: 'base',
+  denomUnits: { uzig: { display: 'ZIG', exponent: 6 } }
+};
+
+async function collectRows(rows: AsyncIterable<RecipientRow>): Promise<RecipientRow[]> {
+  const collected: RecipientRow[] = [];
+  for await (const row of rows) {
+    collected.push(row);
+  }
+  return collected;
 }
 
-// Run the test function
-testMultiSend().catch(console.error);
+function toRows(amounts: string[], addresses: string[] = makeRecipients(amounts.length).map(recipient => recipient.address)): RecipientRow[] {
+  return amounts.map((amount, index) => ({ line: index + 2, address: addresses[index], amount }));
+}
+
+test('every input format numbers its rows by their line in the input', async () => {
+  const [first, second] = makeRecipients(2).map(recipient => recipient.address);
+  const read = (reader: (input: Readable, columns: ColumnMapping) => AsyncIterable<RecipientRow>, text: string, columns: Partial<ColumnMapping> = {}) =>
+    collectRows(reader(Readable.from([text]), { ...DEFAULT_COLUMNS, ...columns }));
+  const lines = (rows: RecipientRow[]) => rows.map(row => [row.line, row.address, row.amount]);
+
+  const csv = await read(readCsvRows, `address,amount\n${first},100\n${second},200\n`);
+  assert.deepEqual(lines(csv), [[2, first, '100'], [3, second, '200']]);
+
+  const tsv = await read((input, columns) => readCsvRows(input, columns, '\t'), `wallet\tqty\tmemo\n${first}\t100\tairdrop\n`, { address: 'wallet', amount: 'qty' });
+  assert.deepEqual(lines(tsv), [[2, first, '100']]);
+  assert.equal(tsv[0].memo, 'airdrop');
+
+  const json = await read(readJsonRows, `[\n  {"address": "${first}", "amount": "100"},\n\n  {\n    "address": "${second}",\n    "amount": 200\n  }\n]\n`);
+  assert.deepEqual(lines(json), [[2, first, '100'], [4, second, '200']]);
+
+  const jsonl = await read(readJsonLinesRows, `{"address": "${first}", "amount": "100"}\n\n{"address": "${second}", "amount": "200"}\n`);
+  assert.deepEqual(lines(jsonl), [[1, first, '100'], [3, second, '200']]);
+
+  await assert.rejects(read(readCsvRows, `wallet,amount\n${first},100\n`), /Column "address" not found/);
+  await assert.rejects(read(readJsonLinesRows, `{"address": "${first}", "amount": "100"}\n{"address": \n`), /Line 2: invalid JSON/);
+});
+
+test('validation lists every invalid row with its line number', () => {
+  const [valid, other, another] = makeRecipients(3).map(recipient => recipient.address);
+  const rows: RecipientRow[] = [
+    { line: 2, address: valid, amount: '100' },
+    { line: 3, address: `${other.slice(0, -1)}${other.endsWith('q') ? 'p' : 'q'}`, amount: '100' },
+    { line: 4, address: toBech32('cosmos', new Uint8Array(20).fill(9)), amount: '100' },
+    { line: 5, address: other, amount: '12.5' },
+    { line: 6, address: other, amount: '0' },
+    { line: 7, address: other, amount: '-5' },
+    { line: 8, address: other, amount: '10uzig;5uzig' },
+    { line: 9, address: other, amount: (1n << 256n).toString() },
+    { line: 10, address: another, amount: '' },
+    { line: 11, address: valid, amount: '50' }
+  ];
+
+  const { recipients, issues } = validateRecipientRows(rows, VALIDATION);
+  assert.deepEqual(recipients, [{ address: valid, amount: '100' }]);
+  assert.deepEqual(issues.map(issue => issue.line), [3, 4, 5, 6, 7, 8, 9, 10, 11]);
+
+  const messages = issues.map(issue => issue.message);
+  assert.match(messages[0], /invalid bech32 address/);
+  assert.match(messages[1], /prefix is "cosmos", expected "zig"/);
+  assert.match(messages[2], /must be a positive integer in base units/);
+  assert.match(messages[3], /is zero/);
+  assert.match(messages[4], /must be a positive integer in base units/);
+  assert.match(messages[5], /duplicate denom uzig/);
+  assert.match(messages[6], /larger than the chain allows/);
+  assert.match(messages[7], /amount is empty/);
+  assert.match(messages[8], /duplicate address, first seen on line 2/);
+  assert.match(formatValidationReport(issues), /^ {2}Line 3: /);
+});
+
+test('merges rows for the same address, adding their coins per denom', () => {
+  const [address] = makeRecipients(1).map(recipient => recipient.address);
+  const rows = toRows(['100', '25ufoo;5uzig', '7'], [address, address.toUpperCase(), address]);
+
+  const { recipients, issues, mergedRows } = validateRecipientRows(rows, { ...VALIDATION, duplicatePolicy: 'merge' });
+  assert.deepEqual(issues, []);
+  assert.equal(mergedRows, 2);
+  assert.deepEqual(recipients, [{
+    address,
+    amount: '25ufoo;112uzig',
+    coins: [{ denom: 'ufoo', amount: '25' }, { denom: 'uzig', amount: '112' }]
+  }]);
+});
+
+test('converts display amounts to base units exactly', () => {
+  assert.equal(toBaseUnits('12.5', 6), '12500000');
+  assert.equal(toBaseUnits('0.000001', 6), '1');
+  assert.equal(toBaseUnits('123456789012345678901234567890.123456', 6), '123456789012345678901234567890123456');
+  assert.throws(() => toBaseUnits('1.0000001', 6), /more than 6 decimal places/);
+
+  const display = { ...VALIDATION, amountUnit: 'display' as const };
+  const { recipients, issues } = validateRecipientRows(toRows(['12.5', '1.0000001', '3ufoo']), display);
+  assert.deepEqual(recipients.map(recipient => recipient.amount), ['12500000']);
+  assert.deepEqual(issues.map(issue => [issue.line, issue.message]), [
+    [3, 'amount "1.0000001" has more than 6 decimal places for ZIG'],
+    [4, 'no display unit configured for ufoo, add it to DENOM_UNITS']
+  ]);
+});
+
+test('parses the command line strictly', () => {
+  const send = parseCommandLine(['send', '--batch-size=5', '--resume', '--input=-']);
+  assert.equal(send.command?.name, 'send');
+  assert.deepEqual(send.options, { batchSize: 5, resume: true, input: '-' });
+
+  const retry = parseCommandLine(['retry', '--batch=3.2', '--json']);
+  assert.deepEqual(retry.options, { batch: '3.2', json: true });
+
+  const keys = parseCommandLine(['keys', 'add', 'treasury']);
+  assert.equal(keys.command?.name, 'keys add');
+  assert.deepEqual(keys.args, ['treasury']);
+
+  // Asking for help never runs the command, so its arguments are not required
+  assert.deepEqual(parseCommandLine(['keys', 'add', '--help']).options, { help: true });
+  assert.equal(parseCommandLine([]).command, null);
+
+  const usage = (argv: string[], message: RegExp) => assert.throws(() => parseCommandLine(argv), (error: unknown) => error instanceof UsageError && message.test(error.message));
+  usage(['transfer'], /Unknown command "transfer"/);
+  usage(['offline'], /Use one of: offline export, offline sign, offline broadcast/);
+  usage(['send', '--batchsize=5'], /Unknown option --batchsize=5/);
+  usage(['retry', '--input=a.csv'], /retry does not take --input/);
+  usage(['send', '--batch-size=5', '--batch-size=6'], /given more than once/);
+  usage(['send', '--batch-size=0'], /batch-size/);
+  usage(['retry', '--batch=three'], /batch/);
+  usage(['send', '--duplicates=sum'], /duplicates/);
+  usage(['keys', 'add'], /keys add needs <name>/);
+  usage(['status', 'now'], /Unexpected argument "now"/);
+});
@@ -1,5 +1,7 @@
 // Types for Zigchain MultiSend functionality
 
+import { OfflineDirectSigner } from '@cosmjs/proto-signing';
+
 export interface Coin {
   denom: string;
   amount: string;
@@ -18,21 +20,117 @@ export interface Output {
 export interface MultiSendTx {
   inputs: Input[];
   outputs: Output[];
+  perRecipientSends?: boolean; // Sent as one MsgSend per output instead of a MsgMultiSend, for recipients with a memo
 }
 
 export interface Recipient {
   address: string;
   amount: string;
+  denom?: string; // Defaults to the configured denom when omitted
+  coins?: Coin[]; // Set when a row pays out several denoms at once
+  memo?: string; // Memo the recipient needs on its transaction (e.g. an exchange deposit), sent with MsgSend
 }
 
 export interface WalletConfig {
   mnemonic?: string;
   privateKey?: string;
   prefix?: string;
+  hdPath?: string; // Account to derive from the mnemonic, e.g. m/44'/118'/0'/0/3 (default: the first account)
+  keyName?: string; // Load the mnemonic or private key from this keystore key instead
+  keystoreDir?: string;
+  passphraseFd?: number; // Read the key's passphrase from this file descriptor instead of a prompt
+  signer?: OfflineDirectSigner; // Sign with this signer (e.g. a KMS or hardware wallet) instead of a key held here
+}
+
+// Sending another account's funds through an authz grant, and paying fees through a fee grant
+export interface DelegationConfig {
+  granter?: string; // Account whose funds are sent, with MsgExec on its behalf
+  feeGranter?: string; // Account that pays the fees out of the allowance it granted
+}
+
+// How a denom is shown to people: uzig is shown as ZIG with 6 decimal places
+export interface DenomUnit {
+  display: string;
+  exponent: number;
+}
+
+// Whether amounts in the input file are base units (uzig) or human-readable (ZIG)
+export type AmountUnit = 'base' | 'display';
+
+// Field names of the address, amount, denom and memo columns in the input file
+export interface ColumnMapping {
+  address: string;
+  amount: string;
+  denom: string;
+  memo: string;
+}
+
+export interface MultisigConfig {
+  address?: string; // Multisig treasury address used as the MultiSend input
+  threshold?: number; // Only needed when the multisig public key is not on chain yet
+  pubkeys: string[]; // Base64 secp256k1 public keys of the members, in multisig order
 }
 
 export interface ZigchainConfig {
-  rpcUrl: string;
+  network: string; // Name of the profile in networks.json
+  rpcUrl: string; // The first of rpcUrls
+  rpcUrls?: string[]; // Endpoints to fail over between, in order of preference (default: rpcUrl only)
+  rpcRequestsPerSecond?: number; // Rate limit per endpoint, 0 for none (default: 10)
+  rpcMaxBlockLag?: number; // Endpoints further behind the others are skipped (default: 5 blocks)
   chainId: string;
+  prefix: string; // Bech32 address prefix
   denom: string;
+  feeDenom: string; // Denom fees are paid in, may differ from the payout denom
+  gasPrice: string; // e.g. 0.025uzig
+  gasMultiplier: number; // Applied to the simulated gas
+  maxFee?: string; // Batches whose estimated fee exceeds this (in feeDenom) are aborted
+  explorerTxUrl?: string; // Link to a transaction, {hash} is replaced with its hash
+  denomUnits: Record<string, DenomUnit>; // Display units of known denoms, keyed by base denom
+}
+
+export interface SignedTx {
+  transactionHash: string;
+  txBytes: Uint8Array;
+  accountNumber: number;
+  sequence: number;
+}
+
+// A signed transaction that may have been broadcast, kept so a retry can check it first
+export interface BroadcastAttempt {
+  transactionHash: string;
+  accountNumber: number;
+  sequence: number;
+}
+
+// Callbacks around a broadcast, used to journal progress
+export interface BroadcastHooks {
+  onSigned?: (signedTx: SignedTx) => void;
+  onBroadcast?: (signedTx: SignedTx) => void;
+  onRejected?: (signedTx: SignedTx) => void; // The node refused the transaction, so it can never be included
+}
+
+// What kind of failure an error is, which decides how it is handled (see errors.ts)
+export type ErrorCategory =
+  | 'network' // Node unreachable, timeouts, full mempool
+  | 'sequence-mismatch' // The transaction was signed with a stale account sequence
+  | 'out-of-gas' // Out of gas, or the transaction is too large for the mempool or a block
+  | 'insufficient-funds'
+  | 'invalid-input' // Bad addresses, coins, fees, signatures or chain ID: resending cannot help
+  | 'chain-rejected' // Any other ABCI error code
+  | 'ambiguous'; // An earlier attempt may be on chain, so nothing can be resent safely
+
+// An entry in failed-batches.json
+export interface FailedBatch {
+  batchNumber: number;
+  label?: string; // Set when the batch was split and only this part failed, e.g. 3.2
+  recipients: Recipient[];
+  error: string;
+  category?: ErrorCategory;
+  code?: number; // ABCI code of a chain rejection
+  codespace?: string;
+  attempts?: BroadcastAttempt[]; // Transactions signed for the batch, checked on chain before any retry
+  sender?: string; // Set when the batch was sent from a derived sender account rather than the main one
+  memo?: string; // Memo the batch was sent with, used again when it is retried
+  runId?: string; // Run journal the batch belongs to
+  timestamp: string;
 }
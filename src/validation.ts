@@ -0,0 +1,321 @@
+import { fromBech32, toBech32 } from '@cosmjs/encoding';
+import { AmountUnit, Coin, DenomUnit, Recipient } from './types';
+import { addCoinLists, getRecipientCoins, parseCoinList } from './coins';
+import { toBaseUnits } from './amounts';
+
+export type DuplicatePolicy = 'merge' | 'reject';
+
+// A row as read from the input file, before validation
+export interface RecipientRow {
+  line: number;
+  address: string;
+  amount: string;
+  denom?: string;
+  memo?: string;
+}
+
+export interface ValidationIssue {
+  line: number;
+  address: string;
+  message: string;
+}
+
+export interface ValidationOptions {
+  prefix: string;
+  defaultDenom: string;
+  duplicatePolicy: DuplicatePolicy;
+  amountUnit: AmountUnit;
+  denomUnits: Record<string, DenomUnit>;
+}
+
+export interface ValidationResult {
+  recipients: Recipient[];
+  issues: ValidationIssue[];
+  mergedRows: number;
+}
+
+// Amounts are sdk.Int values, which are limited to 256 bits
+const MAX_AMOUNT = (BigInt(1) << BigInt(256)) - BigInt(1);
+
+// Denom format accepted by the bank module
+const DENOM_PATTERN = /^[a-zA-Z][a-zA-Z0-9/:._-]{2,127}$/;
+
+/**
+ * Thrown when the input file has rows that would be rejected on chain
+ */
+export class RecipientValidationError extends Error {
+  constructor(public readonly issues: ValidationIssue[]) {
+    super(`${issues.length} invalid recipient row${issues.length === 1 ? '' : 's'} found. Fix them before sending:\n${formatValidationReport(issues)}`);
+    this.name = 'RecipientValidationError';
+  }
+}
+
+/**
+ * Validate and normalize recipient rows: bech32 addresses with the expected prefix,
+ * positive integer amounts within range, valid denoms, and duplicate addresses
+ * merged or rejected depending on the policy. Rows for the same address with different
+ * memos are not duplicates: an exchange tells its depositors apart by memo.
+ */
+export function validateRecipientRows(rows: Iterable<RecipientRow>, options: ValidationOptions): ValidationResult {
+  const validator = new RecipientValidator(options);
+
+  for (const row of rows) {
+    validator.add(row);
+  }
+
+  return validator.getResult();
+}
+
+/**
+ * Validates rows one at a time as they are read, so large inputs never have to be held as raw rows
+ */
+export class RecipientValidator {
+  private issues: ValidationIssue[] = [];
+  private recipients: Recipient[] = [];
+  private seen = new Map<string, { line: number; index: number }>();
+  private mergedRows = 0;
+
+  constructor(private options: ValidationOptions) {}
+
+  add(row: RecipientRow): void {
+    const { options } = this;
+    const report = (message: string) => this.issues.push({ line: row.line, address: row.address, message });
+
+    const address = normalizeAddress(row.address, options.prefix, report);
+
+    let recipient: Recipient | null = null;
+    if (!row.amount || !row.amount.trim()) {
+      report('amount is empty');
+    } else {
+      try {
+        recipient = parseRecipientRow(address || row.address, row.amount, row.denom, options.amountUnit);
+      } catch (error) {
+        report(error instanceof Error ? error.message : String(error));
+      }
+    }
+
+    if (!address || !recipient || (recipient.coins && !validateDenomsUnique(recipient.coins, report))) {
+      return;
+    }
+
+    let coins: Coin[] | null = getRecipientCoins(recipient, options.defaultDenom);
+    if (options.amountUnit === 'display') {
+      coins = convertToBaseUnits(coins, options.denomUnits, report);
+    }
+    if (!coins || !coins.every(coin => validateCoin(coin, report))) {
+      return;
+    }
+
+    const memo = row.memo?.trim();
+    recipient = { ...normalizeRecipient(recipient, address, coins), ...(memo ? { memo } : {}) };
+
+    const key = memo ? `${address}|${memo}` : address;
+    const previous = this.seen.get(key);
+    if (previous) {
+      if (options.duplicatePolicy === 'reject') {
+        report(`duplicate ${memo ? 'address and memo' : 'address'}, first seen on line ${previous.line}`);
+        return;
+      }
+
+      this.recipients[previous.index] = mergeRecipients(this.recipients[previous.index], recipient, options.defaultDenom);
+      this.mergedRows++;
+      return;
+    }
+
+    this.seen.set(key, { line: row.line, index: this.recipients.length });
+    this.recipients.push(recipient);
+  }
+
+  getResult(): ValidationResult {
+    return { recipients: this.recipients, issues: this.issues, mergedRows: this.mergedRows };
+  }
+}
+
+/**
+ * Build a recipient from input fields. The amount is either a plain number
+ * (paid in the row's denom, or the default denom) or a coin list such as
+ * `1000uzig;25ibc/ABC...` when a row pays out several denoms.
+ * With display amounts, plain numbers and coin list amounts may have decimals;
+ * they are converted to base units during validation.
+ */
+export function parseRecipientRow(
+  address: string,
+  amount: string,
+  denom?: string,
+  amountUnit: AmountUnit = 'base'
+): Recipient {
+  const trimmedAmount = amount.trim();
+  const trimmedDenom = denom ? denom.trim() : '';
+  const plainPattern = amountUnit === 'display' ? /^\d*\.?\d+$/ : /^\d+$/;
+
+  if (plainPattern.test(trimmedAmount)) {
+    return {
+      address: address.trim(),
+      amount: trimmedAmount,
+      ...(trimmedDenom ? { denom: trimmedDenom } : {})
+    };
+  }
+
+  if (/^[-+]?\d*\.?\d+$/.test(trimmedAmount)) {
+    throw new Error(amountUnit === 'display'
+      ? `amount "${trimmedAmount}" must be a positive decimal number`
+      : `amount "${trimmedAmount}" must be a positive integer in base units`);
+  }
+
+  if (trimmedDenom) {
+    throw new Error(`amount "${trimmedAmount}" must be a plain integer when a denom column is set`);
+  }
+
+  const coins = parseCoinList(trimmedAmount, amountUnit === 'display');
+  if (coins.length === 1) {
+    return { address: address.trim(), amount: coins[0].amount, denom: coins[0].denom };
+  }
+
+  return { address: address.trim(), amount: trimmedAmount, coins };
+}
+
+/**
+ * Format issues as a line-numbered report
+ */
+export function formatValidationReport(issues: ValidationIssue[]): string {
+  return issues
+    .map(issue => `  Line ${issue.line}: ${issue.address || '(empty address)'} - ${issue.message}`)
+    .join('\n');
+}
+
+/**
+ * Check a bech32 address and return it in lowercase, or null if it is invalid
+ */
+function normalizeAddress(address: string, prefix: string, report: (message: string) => void): string | null {
+  const trimmed = (address || '').trim();
+
+  if (!trimmed) {
+    report('address is empty');
+    return null;
+  }
+
+  try {
+    const { prefix: addressPrefix, data } = fromBech32(trimmed);
+
+    if (addressPrefix !== prefix) {
+      report(`address prefix is "${addressPrefix}", expected "${prefix}"`);
+      return null;
+    }
+
+    // 20 bytes for accounts, 32 bytes for module and contract accounts
+    if (data.length !== 20 && data.length !== 32) {
+      report(`address has ${data.length} bytes of data, expected 20 or 32`);
+      return null;
+    }
+
+    return toBech32(addressPrefix, data);
+  } catch (error) {
+    report(`invalid bech32 address (${error instanceof Error ? error.message : error})`);
+    return null;
+  }
+}
+
+/**
+ * Check a coin is a positive integer amount within range in a valid denom
+ */
+function validateCoin(coin: Coin, report: (message: string) => void): boolean {
+  if (!DENOM_PATTERN.test(coin.denom)) {
+    report(`invalid denom "${coin.denom}"`);
+    return false;
+  }
+
+  if (!/^\d+$/.test(coin.amount)) {
+    report(`amount "${coin.amount}" must be a positive integer in base units`);
+    return false;
+  }
+
+  const amount = BigInt(coin.amount);
+  if (amount === BigInt(0)) {
+    report(`amount of ${coin.denom} is zero`);
+    return false;
+  }
+
+  if (amount > MAX_AMOUNT) {
+    report(`amount of ${coin.denom} is larger than the chain allows`);
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Check no denom is paid twice in one amount, such as `10uzig;5uzig`: the chain refuses such coins
+ */
+function validateDenomsUnique(coins: Coin[], report: (message: string) => void): boolean {
+  const repeated = coins.find((coin, index) => coins.findIndex(other => other.denom === coin.denom) !== index);
+  if (repeated) {
+    report(`duplicate denom ${repeated.denom} in the amount, pay it once`);
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Convert display amounts to base units with each denom's exponent, or null if any cannot be
+ */
+function convertToBaseUnits(
+  coins: Coin[],
+  denomUnits: Record<string, DenomUnit>,
+  report: (message: string) => void
+): Coin[] | null {
+  const converted: Coin[] = [];
+
+  for (const coin of coins) {
+    const unit = denomUnits[coin.denom];
+    if (!unit) {
+      report(`no display unit configured for ${coin.denom}, add it to DENOM_UNITS`);
+      return null;
+    }
+
+    try {
+      converted.push({ denom: coin.denom, amount: toBaseUnits(coin.amount, unit.exponent) });
+    } catch (error) {
+      report(`${error instanceof Error ? error.message : error} for ${unit.display}`);
+      return null;
+    }
+  }
+
+  return converted;
+}
+
+/**
+ * Rebuild a recipient with the normalized address and validated base-unit coins,
+ * stripping leading zeros from amounts
+ */
+function normalizeRecipient(recipient: Recipient, address: string, coins: Coin[]): Recipient {
+  const normalized = coins.map(coin => ({ denom: coin.denom, amount: BigInt(coin.amount).toString() }));
+
+  if (recipient.coins) {
+    return { address, amount: formatCoinList(normalized), coins: normalized };
+  }
+
+  return {
+    address,
+    amount: normalized[0].amount,
+    ...(recipient.denom ? { denom: recipient.denom } : {})
+  };
+}
+
+/**
+ * Combine two rows for the same address (and memo) into one recipient
+ */
+function mergeRecipients(first: Recipient, second: Recipient, defaultDenom: string): Recipient {
+  const coins = addCoinLists(getRecipientCoins(first, defaultDenom), getRecipientCoins(second, defaultDenom));
+  const memo = first.memo ? { memo: first.memo } : {};
+
+  if (coins.length === 1) {
+    return { address: first.address, amount: coins[0].amount, denom: coins[0].denom, ...memo };
+  }
+
+  return { address: first.address, amount: formatCoinList(coins), coins, ...memo };
+}
+
+function formatCoinList(coins: Coin[]): string {
+  return coins.map(coin => `${coin.amount}${coin.denom}`).join(';');
+}
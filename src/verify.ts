@@ -0,0 +1,274 @@
+import fs from 'fs';
+import path from 'path';
+import { decodeTxRaw } from '@cosmjs/proto-signing';
+import { MsgMultiSend, MsgSend } from 'cosmjs-types/cosmos/bank/v1beta1/tx';
+import { MsgExec } from 'cosmjs-types/cosmos/authz/v1beta1/tx';
+import { Any } from 'cosmjs-types/google/protobuf/any';
+import { MSG_EXEC_TYPE_URL, MSG_MULTI_SEND_TYPE_URL, MSG_SEND_TYPE_URL } from './authz';
+import { Coin, Recipient, ZigchainConfig } from './types';
+import { getRecipientCoins } from './coins';
+import { formatAmount } from './amounts';
+import { ChainBackend, createRpcBackend } from './chain-backend';
+
+export type TransferStatus = 'paid' | 'missing' | 'mismatched' | 'extra';
+
+export interface RecordedTransaction {
+  batch: string; // Batch number, or part label such as 3.1 when the batch was split
+  hash: string;
+}
+
+export interface VerifiedTransaction extends RecordedTransaction {
+  status: 'success' | 'failed' | 'not-found';
+  height?: number;
+  code?: number;
+  error?: string;
+}
+
+export interface ReconciliationLine {
+  address: string;
+  denom: string;
+  expected: string;
+  paid: string;
+  status: TransferStatus;
+  transactions: string[];
+}
+
+export interface ReconciliationReport {
+  generatedAt: string;
+  chainId: string;
+  summary: {
+    transactions: number;
+    failedTransactions: number;
+    missingTransactions: number;
+  } & Record<TransferStatus, number>;
+  transactions: VerifiedTransaction[];
+  lines: ReconciliationLine[];
+}
+
+/**
+ * Check recorded transactions on chain and reconcile their outputs against the source recipients
+ */
+export class TransactionVerifier {
+  private hashesFilePath: string;
+  private reportJsonPath: string;
+  private reportCsvPath: string;
+
+  constructor(
+    private networkConfig: ZigchainConfig,
+    private backend: ChainBackend = createRpcBackend(networkConfig)
+  ) {
+    this.hashesFilePath = path.join(process.cwd(), 'transaction-hashes.txt');
+    this.reportJsonPath = path.join(process.cwd(), 'reconciliation-report.json');
+    this.reportCsvPath = path.join(process.cwd(), 'reconciliation-report.csv');
+  }
+
+  /**
+   * Read the successful transaction hashes from transaction-hashes.txt (each hash once)
+   */
+  getRecordedTransactions(): RecordedTransaction[] {
+    if (!fs.existsSync(this.hashesFilePath)) {
+      throw new Error(`Transaction hashes file not found: ${this.hashesFilePath}`);
+    }
+
+    const recorded = new Map<string, RecordedTransaction>();
+    const content = fs.readFileSync(this.hashesFilePath, 'utf8');
+
+    for (const line of content.split('\n')) {
+      const match = line.match(/^Batch #([\d.]+) \|.*\| Hash: ([0-9A-Fa-f]+)/);
+      if (match && !recorded.has(match[2].toUpperCase())) {
+        recorded.set(match[2].toUpperCase(), { batch: match[1], hash: match[2].toUpperCase() });
+      }
+    }
+
+    return Array.from(recorded.values());
+  }
+
+  /**
+   * Fetch every recorded transaction and compare the amounts paid with the recipients
+   */
+  async verify(recipients: Recipient[]): Promise<ReconciliationReport> {
+    const client = await this.backend.connect();
+    const recorded = this.getRecordedTransactions();
+    const transactions: VerifiedTransaction[] = [];
+    const paid = new Map<string, { amount: bigint; transactions: string[] }>();
+
+    console.log(`Verifying ${recorded.length} transactions from ${this.hashesFilePath}...`);
+
+    for (const entry of recorded) {
+      const tx = await client.getTx(entry.hash);
+
+      if (!tx) {
+        console.warn(`Batch #${entry.batch}: transaction ${entry.hash} not found on chain`);
+        transactions.push({ ...entry, status: 'not-found' });
+        continue;
+      }
+
+      if (tx.code !== 0) {
+        console.warn(`Batch #${entry.batch}: transaction ${entry.hash} failed with code ${tx.code}`);
+        transactions.push({ ...entry, status: 'failed', height: tx.height, code: tx.code, error: tx.rawLog });
+        continue;
+      }
+
+      transactions.push({ ...entry, status: 'success', height: tx.height, code: tx.code });
+
+      for (const output of this.decodeOutputs(tx.tx)) {
+        for (const coin of output.coins) {
+          const key = this.transferKey(output.address, coin.denom);
+          const transfer = paid.get(key) || { amount: BigInt(0), transactions: [] };
+          transfer.amount += BigInt(coin.amount);
+          if (!transfer.transactions.includes(entry.hash)) {
+            transfer.transactions.push(entry.hash);
+          }
+          paid.set(key, transfer);
+        }
+      }
+    }
+
+    const lines = this.reconcile(this.expectedTransfers(recipients), paid);
+    const count = (status: TransferStatus) => lines.filter(line => line.status === status).length;
+
+    return {
+      generatedAt: new Date().toISOString(),
+      chainId: await client.getChainId(),
+      summary: {
+        transactions: transactions.length,
+        failedTransactions: transactions.filter(tx => tx.status === 'failed').length,
+        missingTransactions: transactions.filter(tx => tx.status === 'not-found').length,
+        paid: count('paid'),
+        missing: count('missing'),
+        mismatched: count('mismatched'),
+        extra: count('extra')
+      },
+      transactions,
+      lines
+    };
+  }
+
+  /**
+   * Whether the report shows every recipient paid exactly as expected
+   */
+  isClean(report: ReconciliationReport): boolean {
+    const { summary } = report;
+    return summary.failedTransactions === 0 &&
+      summary.missingTransactions === 0 &&
+      summary.missing === 0 &&
+      summary.mismatched === 0 &&
+      summary.extra === 0;
+  }
+
+  /**
+   * Write the report as JSON and CSV
+   */
+  saveReport(report: ReconciliationReport): void {
+    fs.writeFileSync(this.reportJsonPath, JSON.stringify(report, null, 2), 'utf8');
+
+    const rows = report.lines.map(line =>
+      [line.address, line.denom, line.expected, line.paid, line.status, line.transactions.join(' ')].join(',')
+    );
+    fs.writeFileSync(
+      this.reportCsvPath,
+      ['address,denom,expected,paid,status,transactions', ...rows].join('\n') + '\n',
+      'utf8'
+    );
+
+    console.log(`Reconciliation report saved to ${this.reportJsonPath} and ${this.reportCsvPath}`);
+  }
+
+  /**
+   * Print the report summary
+   */
+  printSummary(report: ReconciliationReport): void {
+    const { summary } = report;
+
+    console.log('\n--- Reconciliation Summary ---');
+    console.log(`Transactions checked: ${summary.transactions} (${summary.failedTransactions} failed, ${summary.missingTransactions} not found)`);
+    console.log(`Paid: ${summary.paid}`);
+    console.log(`Missing: ${summary.missing}`);
+    console.log(`Mismatched: ${summary.mismatched}`);
+    console.log(`Extra: ${summary.extra}`);
+
+    for (const line of report.lines.filter(entry => entry.status !== 'paid').slice(0, 20)) {
+      const { denomUnits } = this.networkConfig;
+      console.log(`   ${line.status.toUpperCase()}: ${line.address} expected ${formatAmount(line.expected, line.denom, denomUnits)}, paid ${formatAmount(line.paid, line.denom, denomUnits)}`);
+    }
+  }
+
+  /**
+   * Decode the outputs of a raw transaction: its MultiSend outputs, including those of
+   * MultiSends and Sends executed through authz on behalf of a granter
+   */
+  private decodeOutputs(txBytes: Uint8Array): Array<{ address: string; coins: Coin[] }> {
+    const decoded = decodeTxRaw(txBytes);
+    const outputsOf = (message: Any): Array<{ address: string; coins: Coin[] }> => {
+      switch (message.typeUrl) {
+        case MSG_MULTI_SEND_TYPE_URL:
+          return MsgMultiSend.decode(message.value).outputs;
+        case MSG_SEND_TYPE_URL: {
+          const { toAddress, amount } = MsgSend.decode(message.value);
+          return [{ address: toAddress, coins: amount }];
+        }
+        case MSG_EXEC_TYPE_URL:
+          return MsgExec.decode(message.value).msgs.flatMap(outputsOf);
+        default:
+          return [];
+      }
+    };
+
+    return decoded.body.messages.flatMap(outputsOf);
+  }
+
+  /**
+   * Sum the amount every recipient should receive, per denom
+   */
+  private expectedTransfers(recipients: Recipient[]): Map<string, bigint> {
+    const expected = new Map<string, bigint>();
+
+    for (const recipient of recipients) {
+      for (const coin of getRecipientCoins(recipient, this.networkConfig.denom)) {
+        const key = this.transferKey(recipient.address, coin.denom);
+        expected.set(key, (expected.get(key) || BigInt(0)) + BigInt(coin.amount));
+      }
+    }
+
+    return expected;
+  }
+
+  /**
+   * Compare expected and paid amounts per address and denom
+   */
+  private reconcile(
+    expected: Map<string, bigint>,
+    paid: Map<string, { amount: bigint; transactions: string[] }>
+  ): ReconciliationLine[] {
+    const keys = new Set([...expected.keys(), ...paid.keys()]);
+
+    return Array.from(keys).map(key => {
+      const [address, denom] = key.split('|');
+      const expectedAmount = expected.get(key);
+      const transfer = paid.get(key);
+      const paidAmount = transfer ? transfer.amount : BigInt(0);
+
+      let status: TransferStatus;
+      if (expectedAmount === undefined) {
+        status = 'extra';
+      } else if (!transfer) {
+        status = 'missing';
+      } else {
+        status = paidAmount === expectedAmount ? 'paid' : 'mismatched';
+      }
+
+      return {
+        address,
+        denom,
+        expected: (expectedAmount || BigInt(0)).toString(),
+        paid: paidAmount.toString(),
+        status,
+        transactions: transfer ? transfer.transactions : []
+      };
+    });
+  }
+
+  private transferKey(address: string, denom: string): string {
+    return `${address}|${denom}`;
+  }
+}
@@ -1,41 +1,129 @@
-import { DirectSecp256k1HdWallet, DirectSecp256k1Wallet } from '@cosmjs/proto-signing';
-import { StargateClient, SigningStargateClient } from '@cosmjs/stargate';
+import { Secp256k1HdWallet, Secp256k1Wallet } from '@cosmjs/amino';
+import { DirectSecp256k1HdWallet, DirectSecp256k1Wallet, OfflineDirectSigner } from '@cosmjs/proto-signing';
 import { WalletConfig, ZigchainConfig } from './types';
 import { fromHex } from '@cosmjs/encoding';
+import { stringToPath } from '@cosmjs/crypto';
+import { Keystore } from './keystore';
+import { readSecret } from './prompt';
+import { ChainBackend, createRpcBackend, SigningChainClient } from './chain-backend';
+
+type WalletSecret = Pick<WalletConfig, 'mnemonic' | 'privateKey'>;
 
 export class WalletService {
   private config: WalletConfig;
   private networkConfig: ZigchainConfig;
+  private secret: Promise<WalletSecret> | null = null;
+  readonly backend: ChainBackend;
 
-  constructor(walletConfig: WalletConfig, networkConfig: ZigchainConfig) {
+  constructor(walletConfig: WalletConfig, networkConfig: ZigchainConfig, backend?: ChainBackend) {
     this.config = walletConfig;
     this.networkConfig = networkConfig;
+    this.backend = backend || createRpcBackend(networkConfig);
   }
 
   /**
-   * Create a wallet from mnemonic or private key
+   * Create a wallet from mnemonic or private key, or from a named keystore key. An injected signer is used as is.
    */
-  async createWallet(): Promise<DirectSecp256k1HdWallet | DirectSecp256k1Wallet> {
+  async createWallet(): Promise<OfflineDirectSigner> {
+    if (this.config.signer) {
+      this.assertNoHdPath();
+      return this.config.signer;
+    }
+    
+    const secret = await this.getSecret();
+    
     // Check if private key is provided
-    if (this.config.privateKey) {
+    if (secret.privateKey) {
+      this.assertNoHdPath();
+      
       // Convert hex private key to Uint8Array
-      const privateKey = fromHex(this.config.privateKey.startsWith('0x') 
-        ? this.config.privateKey.substring(2) 
-        : this.config.privateKey);
+      const privateKey = fromHex(secret.privateKey.startsWith('0x') 
+        ? secret.privateKey.substring(2) 
+        : secret.privateKey);
       
       return DirectSecp256k1Wallet.fromKey(privateKey, this.config.prefix || 'zig');
     }
     
     // Fallback to mnemonic if private key is not provided
-    if (!this.config.mnemonic) {
+    if (!secret.mnemonic) {
+      throw new Error('Either mnemonic or private key must be provided in wallet configuration');
+    }
+    
+    return DirectSecp256k1HdWallet.fromMnemonic(secret.mnemonic, {
+      prefix: this.config.prefix || 'zig',
+      ...(this.config.hdPath ? { hdPaths: [stringToPath(this.config.hdPath)] } : {}),
+    });
+  }
+
+  /**
+   * Create an amino (legacy JSON) signing wallet from the same key, for signing multisig sign docs
+   */
+  async createAminoWallet(): Promise<Secp256k1HdWallet | Secp256k1Wallet> {
+    if (this.config.signer) {
+      throw new Error('Multisig sign docs need a mnemonic or private key, an injected signer cannot sign them');
+    }
+    
+    const secret = await this.getSecret();
+    
+    if (secret.privateKey) {
+      this.assertNoHdPath();
+      
+      const privateKey = fromHex(secret.privateKey.startsWith('0x') 
+        ? secret.privateKey.substring(2) 
+        : secret.privateKey);
+      
+      return Secp256k1Wallet.fromKey(privateKey, this.config.prefix || 'zig');
+    }
+    
+    if (!secret.mnemonic) {
       throw new Error('Either mnemonic or private key must be provided in wallet configuration');
     }
     
-    return DirectSecp256k1HdWallet.fromMnemonic(this.config.mnemonic, {
+    return Secp256k1HdWallet.fromMnemonic(secret.mnemonic, {
       prefix: this.config.prefix || 'zig',
+      ...(this.config.hdPath ? { hdPaths: [stringToPath(this.config.hdPath)] } : {}),
     });
   }
 
+  /**
+   * Get a wallet service for another account derived from the same mnemonic
+   */
+  deriveAccount(hdPath: string): WalletService {
+    const derived = new WalletService({ ...this.config, hdPath }, this.networkConfig, this.backend);
+    // Share the unlocked key, so its passphrase is only asked for once
+    derived.secret = this.getSecret();
+    return derived;
+  }
+
+  /**
+   * The mnemonic or private key. A keystore key is unlocked the first time it is needed.
+   */
+  private getSecret(): Promise<WalletSecret> {
+    if (!this.secret) {
+      this.secret = this.config.keyName
+        ? this.unlockKey(this.config.keyName)
+        : Promise.resolve({ mnemonic: this.config.mnemonic, privateKey: this.config.privateKey });
+    }
+    return this.secret;
+  }
+
+  private async unlockKey(name: string): Promise<WalletSecret> {
+    const keystore = new Keystore(this.config.keystoreDir);
+    const passphrase = await readSecret(`Passphrase for key "${name}": `, this.config.passphraseFd);
+    const { type, secret } = await keystore.unlock(name, passphrase);
+    
+    return type === 'mnemonic' ? { mnemonic: secret } : { privateKey: secret };
+  }
+
+  /**
+   * A private key or an injected signer is a single account, so there is nothing to derive from it
+   */
+  private assertNoHdPath(): void {
+    if (this.config.hdPath) {
+      throw new Error(`Cannot derive account ${this.config.hdPath} from a ${this.config.signer ? 'signer' : 'private key'}, a mnemonic is needed`);
+    }
+  }
+
   /**
    * Get account address from wallet
    */
@@ -46,23 +134,20 @@ export class WalletService {
   }
 
   /**
-   * Get account balance
+   * Get account balance (defaults to the configured denom)
    */
-  async getBalance(): Promise<string> {
+  async getBalance(denom: string = this.networkConfig.denom): Promise<string> {
     const address = await this.getAddress();
-    const client = await StargateClient.connect(this.networkConfig.rpcUrl);
-    const balance = await client.getBalance(address, this.networkConfig.denom);
+    const client = await this.backend.connect();
+    const balance = await client.getBalance(address, denom);
     return balance.amount;
   }
 
   /**
    * Create a signing client for transactions
    */
-  async createSigningClient(): Promise<SigningStargateClient> {
+  async createSigningClient(): Promise<SigningChainClient> {
     const wallet = await this.createWallet();
-    return SigningStargateClient.connectWithSigner(
-      this.networkConfig.rpcUrl,
-      wallet
-    );
+    return this.backend.connectWithSigner(wallet);
   }
 }